@@ -0,0 +1,177 @@
+/**
+ * 卡片参数
+ * 将 {名称: 值} 形式的参数转换为 /api/card/:id/query 需要的 {type, target, value} 数组：
+ * 按卡片的参数定义和模板变量确定目标（variable / dimension）、参数类型及值的格式。
+ */
+
+import { ErrorCode, McpError } from "./errors.js";
+
+/**
+ * 原生查询中的模板变量（兼容旧版 native 与 pMBQL stages 格式）
+ */
+function templateTags(card: any): any[] {
+  const tags =
+    card.dataset_query?.native?.["template-tags"] ??
+    card.dataset_query?.stages?.[0]?.["template-tags"] ??
+    {};
+  // Snippets and card references are not parameters
+  return Object.values(tags).filter(
+    (tag: any) => tag.type !== "snippet" && tag.type !== "card",
+  );
+}
+
+function matches(name: string, ...candidates: unknown[]): boolean {
+  const wanted = name.toLowerCase();
+  return candidates.some(
+    (candidate) =>
+      typeof candidate === "string" && candidate.toLowerCase() === wanted,
+  );
+}
+
+/**
+ * 构造卡片执行参数；parameters 已是数组时原样返回
+ */
+export function buildCardParameters(
+  card: any,
+  values: Record<string, unknown> | unknown[] | undefined,
+): unknown[] {
+  if (!values) {
+    return [];
+  }
+  if (Array.isArray(values)) {
+    return values;
+  }
+
+  const parameters: any[] = card.parameters || [];
+  const tags = templateTags(card);
+
+  return Object.entries(values).map(([name, value]) => {
+    const parameter = parameters.find((p) =>
+      matches(name, p.slug, p.name, p.id),
+    );
+    if (parameter) {
+      return {
+        id: parameter.id,
+        type: parameter.type,
+        target: parameter.target,
+        value: normalizeValue(parameter.type, value),
+      };
+    }
+
+    const tag = tags.find((t: any) => matches(name, t.name, t["display-name"]));
+    if (tag) {
+      if (tag.type === "dimension") {
+        const type = tag["widget-type"] || inferWidgetType(value);
+        return {
+          type,
+          target: ["dimension", ["template-tag", tag.name]],
+          value: normalizeValue(type, value),
+        };
+      }
+      const type = VARIABLE_TYPES[tag.type] || "category";
+      return {
+        type,
+        target: ["variable", ["template-tag", tag.name]],
+        // Variables substitute a single value unless a list is given
+        value: normalizeValue(type, value, Array.isArray(value)),
+      };
+    }
+
+    const valid = [
+      ...parameters.map((p) => p.slug || p.name),
+      ...tags.map((t: any) => t.name),
+    ];
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown parameter "${name}" for card ${card.id}. ${
+        valid.length > 0
+          ? `Valid names: ${[...new Set(valid)].join(", ")}`
+          : "The card has no parameters or template tags"
+      }`,
+    );
+  });
+}
+
+// 模板变量类型 → 参数类型
+const VARIABLE_TYPES: Record<string, string> = {
+  text: "category",
+  number: "number/=",
+  date: "date/single",
+  "temporal-unit": "temporal-unit",
+};
+
+function inferWidgetType(value: unknown): string {
+  if (isRange(value)) return "date/range";
+  const sample = Array.isArray(value) ? value[0] : value;
+  if (typeof sample === "number") return "number/=";
+  if (typeof sample === "string" && /^\d{4}-\d{2}(-\d{2})?/.test(sample)) {
+    return "date/all-options";
+  }
+  return "category";
+}
+
+function isRange(value: unknown): value is Record<string, unknown> {
+  return (
+    !!value &&
+    typeof value === "object" &&
+    !Array.isArray(value) &&
+    ("from" in value || "to" in value || "start" in value || "end" in value)
+  );
+}
+
+/**
+ * 按参数类型转换值的格式：
+ * - 日期范围 {from, to} / [from, to] → "from~to"
+ * - 分类、文本、数字、ID 的等值筛选 → 数组（支持多值）
+ */
+function normalizeValue(type: string, value: unknown, list = true): unknown {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  if (type.startsWith("date/")) {
+    if (isRange(value)) {
+      const from = value.from ?? value.start ?? "";
+      const to = value.to ?? value.end ?? "";
+      return `${from}~${to}`;
+    }
+    if (Array.isArray(value) && value.length === 2 && type !== "date/single") {
+      return `${value[0] ?? ""}~${value[1] ?? ""}`;
+    }
+    return value;
+  }
+
+  if (type === "number/between") {
+    if (!Array.isArray(value) || value.length !== 2) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "number/between parameters take a [min, max] pair",
+      );
+    }
+    return value.map(toNumber);
+  }
+
+  if (type.startsWith("number/")) {
+    if (!list) return toNumber(value);
+    return (Array.isArray(value) ? value : [value]).map(toNumber);
+  }
+
+  if (
+    type === "category" ||
+    type === "id" ||
+    type.startsWith("string/") ||
+    type.startsWith("location/")
+  ) {
+    return Array.isArray(value) || !list ? value : [value];
+  }
+
+  return value;
+}
+
+function toNumber(value: unknown): unknown {
+  if (typeof value === "string" && value.trim() !== "") {
+    const number = Number(value);
+    return Number.isNaN(number) ? value : number;
+  }
+  return value;
+}
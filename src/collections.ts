@@ -0,0 +1,257 @@
+/**
+ * 集合
+ * 构造带内容数量的嵌套集合树、分页列出集合内容，以及批量移动卡片和仪表板。
+ * 个人集合标记为 personal 并附带所有者 ID。
+ */
+
+import { AxiosInstance } from "axios";
+import { ErrorCode, McpError } from "./errors.js";
+import { latestRevisionId } from "./revisions.js";
+
+export const COLLECTION_ITEM_MODELS = [
+  "card",
+  "dataset",
+  "metric",
+  "dashboard",
+  "collection",
+] as const;
+
+export interface CollectionItemCounts {
+  questions: number;
+  models: number;
+  metrics: number;
+  dashboards: number;
+  collections: number;
+}
+
+export interface CollectionNode {
+  id: number | "root";
+  name: string;
+  personal?: boolean;
+  personal_owner_id?: number;
+  description?: string;
+  // 直接包含的内容
+  items: CollectionItemCounts;
+  // 包含所有子集合在内的卡片和仪表板数量
+  total_items: number;
+  children: CollectionNode[];
+}
+
+export interface CollectionItemsPage {
+  collection_id: number | "root";
+  total: number;
+  offset: number;
+  limit: number;
+  items: Record<string, any>[];
+}
+
+export interface MoveResult {
+  moved: {
+    type: "card" | "dashboard";
+    id: number;
+    name?: string;
+    // 移动后的修订 ID，查询失败时为 null
+    revision_id: number | null;
+  }[];
+  failed: { type: "card" | "dashboard"; id: number; error: string }[];
+}
+
+const ROOT_NAME = "Our analytics";
+const DEFAULT_LIMIT = 50;
+const MAX_LIMIT = 200;
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function emptyCounts(): CollectionItemCounts {
+  return { questions: 0, models: 0, metrics: 0, dashboards: 0, collections: 0 };
+}
+
+function label(collection: any): Partial<CollectionNode> {
+  return collection.personal_owner_id
+    ? { personal: true, personal_owner_id: collection.personal_owner_id }
+    : {};
+}
+
+/**
+ * 集合树；collectionId 指定时只返回该集合的子树
+ */
+export async function collectionTree(
+  api: AxiosInstance,
+  collectionId?: number,
+): Promise<CollectionNode> {
+  const [tree, cards, dashboards] = await Promise.all([
+    api.get("/api/collection/tree?exclude-archived=true"),
+    api.get("/api/card?f=all"),
+    api.get("/api/dashboard"),
+  ]);
+
+  // Direct contents per collection; null is the root collection
+  const counts = new Map<number | null, CollectionItemCounts>();
+  const countsOf = (id: number | null) => {
+    if (!counts.has(id)) counts.set(id, emptyCounts());
+    return counts.get(id) as CollectionItemCounts;
+  };
+  for (const card of cards.data || []) {
+    if (card.archived) continue;
+    const kind =
+      card.type === "model" || card.dataset
+        ? "models"
+        : card.type === "metric"
+          ? "metrics"
+          : "questions";
+    countsOf(card.collection_id ?? null)[kind]++;
+  }
+  for (const dashboard of dashboards.data || []) {
+    if (dashboard.archived) continue;
+    countsOf(dashboard.collection_id ?? null).dashboards++;
+  }
+
+  const build = (collection: any): CollectionNode => {
+    const children: CollectionNode[] = (collection.children || [])
+      .filter((child: any) => !child.archived)
+      .map(build);
+    const items = { ...countsOf(collection.id) };
+    items.collections = children.length;
+    const node: CollectionNode = {
+      id: collection.id,
+      name: collection.name,
+      ...label(collection),
+      items,
+      total_items:
+        items.questions +
+        items.models +
+        items.metrics +
+        items.dashboards +
+        children.reduce((sum, child) => sum + child.total_items, 0),
+      children,
+    };
+    if (collection.description) node.description = collection.description;
+    return node;
+  };
+
+  const top: any[] = Array.isArray(tree.data) ? tree.data : [];
+  const root = build({ id: null, name: ROOT_NAME, children: top });
+  root.id = "root";
+
+  if (collectionId === undefined) {
+    return root;
+  }
+  const find = (node: CollectionNode): CollectionNode | undefined =>
+    node.id === collectionId ? node : node.children.map(find).find(Boolean);
+  const subtree = find(root);
+  if (!subtree) {
+    throw invalid(`Collection ${collectionId} not found (or archived)`);
+  }
+  return subtree;
+}
+
+/**
+ * 分页列出集合中的卡片、模型、指标、仪表板和子集合
+ */
+export async function listCollectionItems(
+  api: AxiosInstance,
+  collectionId: number | "root",
+  options: {
+    models?: string[];
+    archived?: boolean;
+    limit?: number;
+    offset?: number;
+  },
+): Promise<CollectionItemsPage> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const offset = options.offset ?? 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw invalid(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw invalid("offset must be a non-negative integer");
+  }
+  const models = options.models?.length
+    ? options.models
+    : [...COLLECTION_ITEM_MODELS];
+  for (const model of models) {
+    if (!(COLLECTION_ITEM_MODELS as readonly string[]).includes(model)) {
+      throw invalid(
+        `Unknown item type "${model}". Expected one of: ${COLLECTION_ITEM_MODELS.join(", ")}`,
+      );
+    }
+  }
+
+  const params = new URLSearchParams();
+  for (const model of models) params.append("models", model);
+  if (options.archived) params.append("archived", "true");
+  params.append("sort_column", "name");
+  params.append("sort_direction", "asc");
+  params.append("limit", String(limit));
+  params.append("offset", String(offset));
+
+  const { data } = await api.get(
+    `/api/collection/${collectionId}/items?${params.toString()}`,
+  );
+  // Older versions return a bare array without paging
+  const raw: any[] = Array.isArray(data) ? data : data.data || [];
+  const total: number = Array.isArray(data)
+    ? raw.length
+    : (data.total ?? raw.length);
+  const page = Array.isArray(data)
+    ? raw.slice(offset, offset + limit)
+    : raw.slice(0, limit);
+
+  return {
+    collection_id: collectionId,
+    total,
+    offset,
+    limit,
+    items: page.map((item) => {
+      const compact: Record<string, any> = {
+        type: item.model,
+        id: item.id,
+        name: item.name,
+        ...label(item),
+      };
+      if (item.description) compact.description = item.description;
+      if (item.display) compact.display = item.display;
+      if (item["last-edit-info"]?.timestamp) {
+        compact.last_edited_at = item["last-edit-info"].timestamp;
+      }
+      return compact;
+    }),
+  };
+}
+
+/**
+ * 将卡片和仪表板逐个移动到目标集合（null 为根集合），单个失败不影响其余项目
+ */
+export async function moveItems(
+  api: AxiosInstance,
+  target: number | null,
+  cardIds: number[],
+  dashboardIds: number[],
+): Promise<MoveResult> {
+  const result: MoveResult = { moved: [], failed: [] };
+  const move = async (type: "card" | "dashboard", id: number) => {
+    try {
+      const { data } = await api.put(`/api/${type}/${id}`, {
+        collection_id: target,
+      });
+      result.moved.push({
+        type,
+        id,
+        name: data?.name,
+        revision_id: await latestRevisionId(api, type, id),
+      });
+    } catch (error: any) {
+      result.failed.push({
+        type,
+        id,
+        error: error.response?.data?.message || error.message,
+      });
+    }
+  };
+
+  for (const id of cardIds) await move("card", id);
+  for (const id of dashboardIds) await move("dashboard", id);
+  return result;
+}
@@ -0,0 +1,762 @@
+/**
+ * 仪表板导出 / 导入
+ * 将仪表板（含标签页、参数、dashcard、引用的卡片及其查询）导出为自包含的 JSON 包，
+ * 并在另一个 Metabase 实例中按名称重新映射数据库、表、字段和卡片 ID 后重建。
+ */
+
+import { AxiosInstance } from "axios";
+import { ErrorCode, McpError } from "./errors.js";
+
+export const BUNDLE_FORMAT = "metabase-dashboard-bundle";
+export const BUNDLE_VERSION = 1;
+
+type ReferenceKind = "database" | "table" | "field" | "card" | "snippet";
+
+export interface DashboardBundle {
+  format: typeof BUNDLE_FORMAT;
+  version: number;
+  exported_at: string;
+  source: { url: string; dashboard_id: number };
+  dashboard: {
+    name: string;
+    description: string | null;
+    parameters: any[];
+    tabs: { id: number; name: string; position?: number }[];
+    width?: string;
+    auto_apply_filters?: boolean;
+  };
+  dashcards: {
+    id: number;
+    card_id: number | null;
+    dashboard_tab_id: number | null;
+    row: number;
+    col: number;
+    size_x: number;
+    size_y: number;
+    series: number[];
+    parameter_mappings: any[];
+    visualization_settings: Record<string, any>;
+  }[];
+  // 按依赖顺序排列：被引用的卡片在前
+  cards: {
+    id: number;
+    name: string;
+    description: string | null;
+    display: string;
+    type?: string;
+    dataset_query: any;
+    visualization_settings: Record<string, any>;
+    parameters?: any[];
+  }[];
+  // 源实例中各 ID 对应的名称，用于在目标实例中重新映射
+  references: {
+    databases: Record<string, { name: string; engine?: string }>;
+    tables: Record<
+      string,
+      { database_id: number; schema: string | null; name: string }
+    >;
+    fields: Record<
+      string,
+      { table_id: number; name: string; parent_id: number | null }
+    >;
+    snippets: Record<string, { name: string }>;
+  };
+}
+
+export interface UnresolvedReference {
+  kind: ReferenceKind | "segment" | "metric";
+  source_id: number | string;
+  name?: string;
+  used_by: string;
+  reason: string;
+}
+
+export interface ImportOptions {
+  collection_id?: number | null;
+  name?: string;
+  // 源数据库名称或 ID → 目标数据库 ID，覆盖按名称匹配的结果
+  database_mapping?: Record<string, number>;
+}
+
+export interface ImportResult {
+  dashboard_id: number;
+  cards_created: { source_id: number; id: number; name: string }[];
+  cards_skipped: { source_id: number; name: string; reason: string }[];
+  dashcards_created: number;
+  dashcards_skipped: number;
+  unresolved: UnresolvedReference[];
+}
+
+type Visitor = (kind: ReferenceKind, id: number) => number | undefined;
+
+/**
+ * 遍历查询/参数结构中的 ID 引用，visit 返回新 ID 时替换，返回 undefined 时保留原值
+ */
+function mapReferences(
+  value: any,
+  visit: Visitor,
+  onOther?: (kind: "segment" | "metric", id: number) => void,
+): any {
+  if (Array.isArray(value)) {
+    const [head] = value;
+    if (head === "field" || head === "field-id") {
+      // Legacy ["field", 17, opts], pMBQL ["field", opts, 17], old ["field-id", 17]
+      return value.map((item, index) =>
+        index > 0 && typeof item === "number"
+          ? (visit("field", item) ?? item)
+          : mapReferences(item, visit, onOther),
+      );
+    }
+    if ((head === "segment" || head === "metric") && onOther) {
+      const id = value.find((item) => typeof item === "number");
+      if (id !== undefined) onOther(head, id);
+    }
+    return value.map((item) => mapReferences(item, visit, onOther));
+  }
+
+  if (value && typeof value === "object") {
+    const result: Record<string, any> = {};
+    for (const [key, item] of Object.entries(value)) {
+      if (key === "database" && typeof item === "number") {
+        result[key] = visit("database", item) ?? item;
+      } else if (key === "source-table" && typeof item === "number") {
+        result[key] = visit("table", item) ?? item;
+      } else if (key === "source-table" && typeof item === "string") {
+        const match = /^card__(\d+)$/.exec(item);
+        const mapped = match ? visit("card", Number(match[1])) : undefined;
+        result[key] = mapped !== undefined ? `card__${mapped}` : item;
+      } else if (
+        (key === "source-card" || key === "card-id" || key === "card_id") &&
+        typeof item === "number"
+      ) {
+        result[key] = visit("card", item) ?? item;
+      } else if (key === "source-field" && typeof item === "number") {
+        result[key] = visit("field", item) ?? item;
+      } else if (key === "snippet-id" && typeof item === "number") {
+        result[key] = visit("snippet", item) ?? item;
+      } else {
+        result[key] = mapReferences(item, visit, onOther);
+      }
+    }
+    return result;
+  }
+
+  return value;
+}
+
+/**
+ * 收集结构中引用的 ID
+ */
+function collectReferences(value: any): Map<ReferenceKind, Set<number>> {
+  const found = new Map<ReferenceKind, Set<number>>();
+  mapReferences(value, (kind, id) => {
+    addReference(found, kind, id);
+    return undefined;
+  });
+  return found;
+}
+
+function addReference(
+  refs: Map<ReferenceKind, Set<number>>,
+  kind: ReferenceKind,
+  id: number,
+) {
+  if (!refs.has(kind)) refs.set(kind, new Set());
+  refs.get(kind)?.add(id);
+}
+
+/**
+ * 导出仪表板为自包含的 JSON 包
+ */
+export async function exportDashboardBundle(
+  api: AxiosInstance,
+  sourceUrl: string,
+  dashboardId: number,
+): Promise<DashboardBundle> {
+  const { data: dashboard } = await api.get(`/api/dashboard/${dashboardId}`);
+  const dashcards: any[] = dashboard.dashcards || dashboard.cards || [];
+
+  // Fetch every referenced card, following card-to-card references
+  const cards = new Map<number, any>();
+  const order: number[] = [];
+  const visiting = new Set<number>();
+
+  const loadCard = async (cardId: number) => {
+    if (cards.has(cardId) || visiting.has(cardId)) return;
+    visiting.add(cardId);
+    const { data: card } = await api.get(`/api/card/${cardId}`);
+    const refs = collectReferences([card.dataset_query, card.parameters]);
+    for (const dependency of refs.get("card") || []) {
+      await loadCard(dependency);
+    }
+    cards.set(cardId, card);
+    order.push(cardId);
+  };
+
+  for (const dashcard of dashcards) {
+    if (dashcard.card_id) await loadCard(dashcard.card_id);
+    for (const series of dashcard.series || []) {
+      await loadCard(series.id);
+    }
+  }
+  // Cards that supply dashboard filter values
+  const parameterRefs = collectReferences(dashboard.parameters || []);
+  for (const cardId of parameterRefs.get("card") || []) {
+    await loadCard(cardId);
+  }
+
+  // Resolve the names behind every database, table, field and snippet ID
+  const refs = collectReferences([
+    [...cards.values()].map((card) => [card.dataset_query, card.parameters]),
+    dashcards.map((dashcard) => dashcard.parameter_mappings || []),
+    dashboard.parameters || [],
+  ]);
+
+  const references: DashboardBundle["references"] = {
+    databases: {},
+    tables: {},
+    fields: {},
+    snippets: {},
+  };
+
+  const loadField = async (fieldId: number) => {
+    if (references.fields[fieldId]) return;
+    const { data: field } = await api.get(`/api/field/${fieldId}`);
+    references.fields[fieldId] = {
+      table_id: field.table_id,
+      name: field.name,
+      parent_id: field.parent_id ?? null,
+    };
+    if (field.parent_id) await loadField(field.parent_id);
+    addReference(refs, "table", field.table_id);
+  };
+
+  for (const fieldId of refs.get("field") || []) {
+    await loadField(fieldId);
+  }
+  for (const tableId of refs.get("table") || []) {
+    const { data: table } = await api.get(`/api/table/${tableId}`);
+    references.tables[tableId] = {
+      database_id: table.db_id,
+      schema: table.schema ?? null,
+      name: table.name,
+    };
+    addReference(refs, "database", table.db_id);
+  }
+  for (const databaseId of refs.get("database") || []) {
+    const { data: database } = await api.get(`/api/database/${databaseId}`);
+    references.databases[databaseId] = {
+      name: database.name,
+      engine: database.engine,
+    };
+  }
+  for (const snippetId of refs.get("snippet") || []) {
+    const { data: snippet } = await api.get(
+      `/api/native-query-snippet/${snippetId}`,
+    );
+    references.snippets[snippetId] = { name: snippet.name };
+  }
+
+  return {
+    format: BUNDLE_FORMAT,
+    version: BUNDLE_VERSION,
+    exported_at: new Date().toISOString(),
+    source: { url: sourceUrl, dashboard_id: dashboardId },
+    dashboard: {
+      name: dashboard.name,
+      description: dashboard.description ?? null,
+      parameters: dashboard.parameters || [],
+      tabs: (dashboard.tabs || []).map((tab: any) => ({
+        id: tab.id,
+        name: tab.name,
+        position: tab.position,
+      })),
+      width: dashboard.width,
+      auto_apply_filters: dashboard.auto_apply_filters,
+    },
+    dashcards: dashcards.map((dashcard) => ({
+      id: dashcard.id,
+      card_id: dashcard.card_id ?? null,
+      dashboard_tab_id: dashcard.dashboard_tab_id ?? null,
+      row: dashcard.row,
+      col: dashcard.col,
+      size_x: dashcard.size_x,
+      size_y: dashcard.size_y,
+      series: (dashcard.series || []).map((series: any) => series.id),
+      parameter_mappings: dashcard.parameter_mappings || [],
+      visualization_settings: dashcard.visualization_settings || {},
+    })),
+    cards: order.map((cardId) => {
+      const card = cards.get(cardId);
+      return {
+        id: card.id,
+        name: card.name,
+        description: card.description ?? null,
+        display: card.display,
+        type: card.type,
+        dataset_query: card.dataset_query,
+        visualization_settings: card.visualization_settings || {},
+        parameters: card.parameters,
+      };
+    }),
+    references,
+  };
+}
+
+/**
+ * 目标实例中按名称解析 ID 的映射表
+ */
+class TargetResolver {
+  private databaseIds = new Map<number, number | null>();
+  private metadata = new Map<number, any>();
+  private tableIds = new Map<number, number | null>();
+  private fieldIds = new Map<number, number | null>();
+  private snippetIds: Map<string, number> | null = null;
+
+  constructor(
+    private api: AxiosInstance,
+    private bundle: DashboardBundle,
+    private databaseMapping: Record<string, number>,
+    private targetDatabases: any[],
+  ) {}
+
+  async database(sourceId: number): Promise<number | null> {
+    if (this.databaseIds.has(sourceId)) {
+      return this.databaseIds.get(sourceId) as number | null;
+    }
+    const source = this.bundle.references.databases[sourceId];
+    const override =
+      this.databaseMapping[String(sourceId)] ??
+      (source ? this.databaseMapping[source.name] : undefined);
+    let targetId: number | null = override ?? null;
+    if (targetId === null && source) {
+      const match =
+        this.targetDatabases.find((db) => db.name === source.name) ||
+        this.targetDatabases.find(
+          (db) => db.name.toLowerCase() === source.name.toLowerCase(),
+        );
+      targetId = match?.id ?? null;
+    }
+    this.databaseIds.set(sourceId, targetId);
+    return targetId;
+  }
+
+  async table(sourceId: number): Promise<number | null> {
+    if (this.tableIds.has(sourceId)) {
+      return this.tableIds.get(sourceId) as number | null;
+    }
+    const source = this.bundle.references.tables[sourceId];
+    const targetDb = source ? await this.database(source.database_id) : null;
+    let targetId: number | null = null;
+    if (source && targetDb !== null) {
+      const metadata = await this.databaseMetadata(targetDb);
+      const table = (metadata.tables || []).find(
+        (candidate: any) =>
+          candidate.name === source.name &&
+          (candidate.schema ?? null) === source.schema,
+      );
+      targetId = table?.id ?? null;
+    }
+    this.tableIds.set(sourceId, targetId);
+    return targetId;
+  }
+
+  async field(sourceId: number): Promise<number | null> {
+    if (this.fieldIds.has(sourceId)) {
+      return this.fieldIds.get(sourceId) as number | null;
+    }
+    const source = this.bundle.references.fields[sourceId];
+    let targetId: number | null = null;
+    if (source) {
+      const targetTable = await this.table(source.table_id);
+      const targetParent = source.parent_id
+        ? await this.field(source.parent_id)
+        : null;
+      const sourceTable = this.bundle.references.tables[source.table_id];
+      if (
+        targetTable !== null &&
+        sourceTable &&
+        (!source.parent_id || targetParent !== null)
+      ) {
+        const targetDb = await this.database(sourceTable.database_id);
+        const metadata = await this.databaseMetadata(targetDb as number);
+        const table = (metadata.tables || []).find(
+          (candidate: any) => candidate.id === targetTable,
+        );
+        const field = (table?.fields || []).find(
+          (candidate: any) =>
+            candidate.name === source.name &&
+            (candidate.parent_id ?? null) === targetParent,
+        );
+        targetId = field?.id ?? null;
+      }
+    }
+    this.fieldIds.set(sourceId, targetId);
+    return targetId;
+  }
+
+  async snippet(sourceId: number): Promise<number | null> {
+    const source = this.bundle.references.snippets[sourceId];
+    if (!source) return null;
+    if (!this.snippetIds) {
+      const { data } = await this.api.get("/api/native-query-snippet");
+      this.snippetIds = new Map(
+        (data || []).map((snippet: any) => [snippet.name, snippet.id]),
+      );
+    }
+    return this.snippetIds.get(source.name) ?? null;
+  }
+
+  describe(kind: ReferenceKind, sourceId: number): string | undefined {
+    const refs = this.bundle.references;
+    if (kind === "database") return refs.databases[sourceId]?.name;
+    if (kind === "snippet") return refs.snippets[sourceId]?.name;
+    if (kind === "table") {
+      const table = refs.tables[sourceId];
+      return table && [table.schema, table.name].filter(Boolean).join(".");
+    }
+    if (kind === "field") {
+      const field = refs.fields[sourceId];
+      const table = field && refs.tables[field.table_id];
+      return field && [table?.name, field.name].filter(Boolean).join(".");
+    }
+    return undefined;
+  }
+
+  private async databaseMetadata(databaseId: number): Promise<any> {
+    if (!this.metadata.has(databaseId)) {
+      const { data } = await this.api.get(
+        `/api/database/${databaseId}/metadata?include_hidden=true`,
+      );
+      this.metadata.set(databaseId, data);
+    }
+    return this.metadata.get(databaseId);
+  }
+}
+
+/**
+ * 重写结构中的引用；无法解析的引用记入 unresolved，返回重写结果及是否完整
+ */
+async function remap(
+  value: any,
+  resolver: TargetResolver,
+  cardIds: Map<number, number>,
+  usedBy: string,
+  unresolved: UnresolvedReference[],
+): Promise<{ value: any; complete: boolean }> {
+  // Resolve everything first (async), then rewrite synchronously
+  const refs = collectReferences(value);
+  const resolved = new Map<string, number | null>();
+  for (const [kind, ids] of refs) {
+    for (const id of ids) {
+      let target: number | null;
+      if (kind === "card") target = cardIds.get(id) ?? null;
+      else target = await resolver[kind](id);
+      resolved.set(`${kind}:${id}`, target);
+    }
+  }
+
+  let complete = true;
+  const rewritten = mapReferences(
+    value,
+    (kind, id) => {
+      const target = resolved.get(`${kind}:${id}`);
+      if (target === null || target === undefined) {
+        complete = false;
+        if (
+          !unresolved.some(
+            (entry) =>
+              entry.kind === kind &&
+              entry.source_id === id &&
+              entry.used_by === usedBy,
+          )
+        ) {
+          unresolved.push({
+            kind,
+            source_id: id,
+            name: resolver.describe(kind, id),
+            used_by: usedBy,
+            reason:
+              kind === "card"
+                ? "referenced card was not imported"
+                : `no ${kind} with the same name in the target instance`,
+          });
+        }
+        return undefined;
+      }
+      return target;
+    },
+    (kind, id) => {
+      complete = false;
+      unresolved.push({
+        kind,
+        source_id: id,
+        used_by: usedBy,
+        reason: `${kind}s cannot be remapped between instances`,
+      });
+    },
+  );
+
+  return { value: rewritten, complete };
+}
+
+/**
+ * 重写原生查询文本和模板变量中的卡片引用 {{#12-slug}}
+ */
+function remapNativeCardReferences(
+  datasetQuery: any,
+  cardIds: Map<number, number>,
+): any {
+  const rewriteText = (text: string) =>
+    text.replace(/\{\{\s*#(\d+)/g, (match, id) => {
+      const target = cardIds.get(Number(id));
+      return target !== undefined
+        ? match.replace(`#${id}`, `#${target}`)
+        : match;
+    });
+  const rewriteTags = (tags: Record<string, any> | undefined) => {
+    if (!tags) return tags;
+    return Object.fromEntries(
+      Object.entries(tags).map(([key, tag]) => {
+        const newKey = rewriteText(`{{${key}`).slice(2);
+        return [
+          newKey,
+          { ...tag, name: rewriteText(`{{${tag.name}`).slice(2) },
+        ];
+      }),
+    );
+  };
+
+  const query = structuredClone(datasetQuery);
+  if (query?.native) {
+    if (typeof query.native.query === "string") {
+      query.native.query = rewriteText(query.native.query);
+    }
+    query.native["template-tags"] = rewriteTags(query.native["template-tags"]);
+  }
+  for (const stage of query?.stages || []) {
+    if (typeof stage.native === "string") {
+      stage.native = rewriteText(stage.native);
+    }
+    stage["template-tags"] = rewriteTags(stage["template-tags"]);
+  }
+  return query;
+}
+
+function apiErrorMessage(error: any): string {
+  return error?.response?.data?.message || error?.message || String(error);
+}
+
+/**
+ * 导入中途失败时归档已创建的卡片和仪表板，返回无法归档的对象
+ */
+async function archiveCreated(
+  api: AxiosInstance,
+  cardIds: number[],
+  dashboardId: number | undefined,
+): Promise<string[]> {
+  const leftOver: string[] = [];
+  const targets = [
+    ...cardIds.map((id) => ({ kind: "card", id })),
+    ...(dashboardId !== undefined
+      ? [{ kind: "dashboard", id: dashboardId }]
+      : []),
+  ];
+  for (const { kind, id } of targets) {
+    try {
+      await api.put(`/api/${kind}/${id}`, { archived: true });
+    } catch {
+      leftOver.push(`${kind} ${id}`);
+    }
+  }
+  return leftOver;
+}
+
+/**
+ * 在目标实例中导入仪表板包；中途失败时归档已创建的对象，错误信息中列出它们的 ID
+ */
+export async function importDashboardBundle(
+  api: AxiosInstance,
+  bundle: DashboardBundle,
+  options: ImportOptions,
+): Promise<ImportResult> {
+  if (bundle?.format !== BUNDLE_FORMAT || !bundle.dashboard) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Not a dashboard bundle: expected format "${BUNDLE_FORMAT}"`,
+    );
+  }
+  if (bundle.version > BUNDLE_VERSION) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unsupported bundle version ${bundle.version} (max ${BUNDLE_VERSION})`,
+    );
+  }
+
+  const { data: databases } = await api.get("/api/database");
+  const resolver = new TargetResolver(
+    api,
+    bundle,
+    options.database_mapping || {},
+    Array.isArray(databases) ? databases : databases.data || [],
+  );
+
+  const unresolved: UnresolvedReference[] = [];
+  const cardIds = new Map<number, number>();
+  const cardsCreated: ImportResult["cards_created"] = [];
+  const cardsSkipped: ImportResult["cards_skipped"] = [];
+  let dashboardId: number | undefined;
+
+  try {
+    // Cards are stored in dependency order, so referenced cards exist first
+    for (const card of bundle.cards) {
+      const usedBy = `card ${card.id} (${card.name})`;
+      const query = await remap(
+        remapNativeCardReferences(card.dataset_query, cardIds),
+        resolver,
+        cardIds,
+        usedBy,
+        unresolved,
+      );
+      const parameters = await remap(
+        card.parameters,
+        resolver,
+        cardIds,
+        usedBy,
+        unresolved,
+      );
+      if (!query.complete) {
+        cardsSkipped.push({
+          source_id: card.id,
+          name: card.name,
+          reason: "query references unresolved databases, tables or fields",
+        });
+        continue;
+      }
+
+      const body: Record<string, any> = {
+        name: card.name,
+        description: card.description,
+        display: card.display,
+        dataset_query: query.value,
+        visualization_settings: card.visualization_settings,
+        collection_id: options.collection_id ?? null,
+      };
+      if (card.type) body.type = card.type;
+      if (parameters.value !== undefined) body.parameters = parameters.value;
+
+      const { data: created } = await api.post("/api/card", body);
+      cardIds.set(card.id, created.id);
+      cardsCreated.push({
+        source_id: card.id,
+        id: created.id,
+        name: card.name,
+      });
+    }
+
+    const dashboardParameters = await remap(
+      bundle.dashboard.parameters,
+      resolver,
+      cardIds,
+      "dashboard parameters",
+      unresolved,
+    );
+
+    const { data: dashboard } = await api.post("/api/dashboard", {
+      name: options.name || bundle.dashboard.name,
+      description: bundle.dashboard.description,
+      parameters: dashboardParameters.value,
+      collection_id: options.collection_id ?? null,
+    });
+    dashboardId = dashboard.id;
+
+    // New tabs and dashcards use negative IDs until Metabase assigns real ones
+    const tabIds = new Map<number, number>();
+    const tabs = bundle.dashboard.tabs.map((tab, index) => {
+      tabIds.set(tab.id, -(index + 1));
+      return { id: -(index + 1), name: tab.name };
+    });
+
+    let dashcardsSkipped = 0;
+    const dashcards = [];
+    for (const dashcard of bundle.dashcards) {
+      if (dashcard.card_id !== null && !cardIds.has(dashcard.card_id)) {
+        dashcardsSkipped++;
+        continue;
+      }
+      const usedBy = `dashcard ${dashcard.id}`;
+      // Drop mappings whose target could not be remapped
+      const parameterMappings = [];
+      for (const mapping of dashcard.parameter_mappings) {
+        const remapped = await remap(
+          mapping,
+          resolver,
+          cardIds,
+          usedBy,
+          unresolved,
+        );
+        if (remapped.complete) parameterMappings.push(remapped.value);
+      }
+      dashcards.push({
+        id: -(dashcards.length + 1),
+        card_id:
+          dashcard.card_id === null ? null : cardIds.get(dashcard.card_id),
+        dashboard_tab_id:
+          dashcard.dashboard_tab_id === null
+            ? null
+            : (tabIds.get(dashcard.dashboard_tab_id) ?? null),
+        row: dashcard.row,
+        col: dashcard.col,
+        size_x: dashcard.size_x,
+        size_y: dashcard.size_y,
+        series: dashcard.series
+          .filter((id) => cardIds.has(id))
+          .map((id) => ({ id: cardIds.get(id) })),
+        parameter_mappings: parameterMappings,
+        visualization_settings: dashcard.visualization_settings,
+      });
+    }
+
+    await api.put(`/api/dashboard/${dashboard.id}`, {
+      dashcards,
+      tabs,
+      ...(bundle.dashboard.width ? { width: bundle.dashboard.width } : {}),
+      ...(bundle.dashboard.auto_apply_filters !== undefined
+        ? { auto_apply_filters: bundle.dashboard.auto_apply_filters }
+        : {}),
+    });
+
+    return {
+      dashboard_id: dashboard.id,
+      cards_created: cardsCreated,
+      cards_skipped: cardsSkipped,
+      dashcards_created: dashcards.length,
+      dashcards_skipped: dashcardsSkipped,
+      unresolved,
+    };
+  } catch (error) {
+    const created = [
+      ...cardsCreated.map((card) => `card ${card.id}`),
+      ...(dashboardId !== undefined ? [`dashboard ${dashboardId}`] : []),
+    ];
+    if (created.length === 0) throw error;
+    const leftOver = await archiveCreated(
+      api,
+      cardsCreated.map((card) => card.id),
+      dashboardId,
+    );
+    const archived = created.filter((item) => !leftOver.includes(item));
+    const cleanup = [
+      archived.length > 0
+        ? `Archived what was created so far (${archived.join(", ")})`
+        : "",
+      leftOver.length > 0
+        ? `Could not archive ${leftOver.join(", ")}; remove them by hand`
+        : "",
+    ].filter(Boolean);
+    throw new McpError(
+      error instanceof McpError ? error.code : ErrorCode.InternalError,
+      `Dashboard import failed: ${apiErrorMessage(error)}. ${cleanup.join(". ")}.`,
+    );
+  }
+}
@@ -0,0 +1,313 @@
+/**
+ * 仪表板筛选器
+ * 创建仪表板参数，并扫描每个 dashcard 的卡片：原生查询按模板变量连接，
+ * MBQL 查询按字段连接，生成 parameter_mappings，同时报告无法连接的卡片及原因。
+ */
+
+import { AxiosInstance } from "axios";
+import { randomBytes } from "node:crypto";
+import { ErrorCode, McpError } from "./errors.js";
+
+export const FILTER_TYPES = [
+  "date/all-options",
+  "date/range",
+  "date/single",
+  "date/relative",
+  "date/month-year",
+  "date/quarter-year",
+  "string/=",
+  "string/!=",
+  "string/contains",
+  "string/does-not-contain",
+  "string/starts-with",
+  "string/ends-with",
+  "category",
+  "number/=",
+  "number/!=",
+  "number/between",
+  "number/>=",
+  "number/<=",
+  "id",
+] as const;
+
+export type FilterType = (typeof FILTER_TYPES)[number];
+
+export interface FilterOptions {
+  name: string;
+  type: FilterType;
+  slug?: string;
+  default?: unknown;
+  // 要连接的模板变量名称（默认使用 slug）
+  tag_names?: string[];
+  // MBQL 卡片按字段连接：字段 ID 或字段名称
+  field_id?: number;
+  field_name?: string;
+  // 只连接这些 dashcard
+  dashcard_ids?: number[];
+}
+
+export interface FilterWiring {
+  parameter: Record<string, any>;
+  // dashcard ID → 新增的 parameter_mappings
+  mappings: Map<number, any[]>;
+  wired: {
+    dashcard_id: number;
+    card_id: number;
+    card_name: string;
+    target: any;
+  }[];
+  not_wired: {
+    dashcard_id: number;
+    card_id: number | null;
+    card_name?: string;
+    reason: string;
+  }[];
+}
+
+export function parseFilterType(value: unknown): FilterType {
+  if (!FILTER_TYPES.includes(value as FilterType)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown filter type "${value}". Expected one of: ${FILTER_TYPES.join(", ")}`,
+    );
+  }
+  return value as FilterType;
+}
+
+function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "_")
+    .replace(/^_+|_+$/g, "");
+}
+
+function filterSection(type: FilterType): string {
+  if (type === "category") return "string";
+  return type.split("/")[0];
+}
+
+/**
+ * 原生查询中的模板变量（兼容旧版 native 与 pMBQL stages 格式）
+ */
+function templateTags(datasetQuery: any): Record<string, any> {
+  return (
+    datasetQuery?.native?.["template-tags"] ??
+    datasetQuery?.stages?.[0]?.["template-tags"] ??
+    {}
+  );
+}
+
+function isNative(datasetQuery: any): boolean {
+  return (
+    datasetQuery?.type === "native" ||
+    datasetQuery?.stages?.[0]?.["lib/type"] === "mbql.stage/native"
+  );
+}
+
+function sourceTable(datasetQuery: any): number | string | undefined {
+  return (
+    datasetQuery?.query?.["source-table"] ??
+    datasetQuery?.stages?.[0]?.["source-table"] ??
+    (datasetQuery?.stages?.[0]?.["source-card"] !== undefined
+      ? `card__${datasetQuery.stages[0]["source-card"]}`
+      : undefined)
+  );
+}
+
+/**
+ * 模板变量能否接收该类型的筛选器，不能时返回原因
+ */
+function tagIncompatibility(tag: any, type: FilterType): string | null {
+  const section = filterSection(type);
+  if (tag.type === "dimension") {
+    const widget = tag["widget-type"];
+    if (!widget || widget === "none") return null;
+    const widgetSection =
+      widget === "category" ? "string" : widget.split("/")[0];
+    return widgetSection === section ||
+      (section === "id" && widgetSection !== "date")
+      ? null
+      : `field filter "${tag.name}" uses a ${widget} widget, not ${type}`;
+  }
+  // 普通变量只接收单个值的等值筛选器
+  const accepts: Record<string, FilterType[]> = {
+    date: ["date/single"],
+    number: ["number/=", "id"],
+    text: ["string/=", "category", "id"],
+  };
+  const accepted = accepts[tag.type];
+  if (accepted?.includes(type)) return null;
+  if (accepted?.some((t) => filterSection(t) === section)) {
+    return `variable "${tag.name}" takes a single ${tag.type} value and cannot take a ${type} filter; use ${accepted.filter((t) => filterSection(t) === section).join(" or ")}, or make it a field filter`;
+  }
+  return `template tag "${tag.name}" is a ${tag.type} variable and cannot take a ${type} filter`;
+}
+
+/**
+ * 字段类型能否接收该类型的筛选器，不能时返回原因
+ */
+function fieldIncompatibility(field: any, type: FilterType): string | null {
+  const fieldType = String(field.effective_type || field.base_type || "");
+  const section = filterSection(type);
+  const temporal = /^type\/(Date|Time)/.test(fieldType);
+  const numeric = /^type\/(Integer|BigInteger|Float|Decimal|Number)/.test(
+    fieldType,
+  );
+  if (section === "date" && !temporal) {
+    return `field "${field.name}" is ${fieldType}, not a date`;
+  }
+  if (section === "number" && !numeric) {
+    return `field "${field.name}" is ${fieldType}, not a number`;
+  }
+  if (section === "string" && type !== "category" && temporal) {
+    return `field "${field.name}" is ${fieldType}, not text`;
+  }
+  return null;
+}
+
+/**
+ * 生成新筛选器的参数定义及每个 dashcard 的 parameter_mappings
+ */
+export async function wireDashboardFilter(
+  api: AxiosInstance,
+  dashboard: any,
+  options: FilterOptions,
+): Promise<FilterWiring> {
+  const type = parseFilterType(options.type);
+  const slug = options.slug || slugify(options.name);
+  if (!slug) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      "Filter name must contain at least one letter or digit",
+    );
+  }
+  if ((dashboard.parameters || []).some((p: any) => p.slug === slug)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Dashboard ${dashboard.id} already has a filter with slug "${slug}"`,
+    );
+  }
+
+  const parameter: Record<string, any> = {
+    id: randomBytes(4).toString("hex"),
+    name: options.name,
+    slug,
+    type,
+    sectionId: filterSection(type),
+  };
+  if (options.default !== undefined) parameter.default = options.default;
+
+  const tagNames = new Set(
+    (options.tag_names?.length ? options.tag_names : [slug]).map((name) =>
+      name.toLowerCase(),
+    ),
+  );
+
+  const tableFields = new Map<number, any[]>();
+  const fieldsOf = async (tableId: number) => {
+    if (!tableFields.has(tableId)) {
+      const { data } = await api.get(`/api/table/${tableId}/query_metadata`);
+      tableFields.set(tableId, data.fields || []);
+    }
+    return tableFields.get(tableId) as any[];
+  };
+
+  const wiring: FilterWiring = {
+    parameter,
+    mappings: new Map(),
+    wired: [],
+    not_wired: [],
+  };
+
+  for (const dashcard of dashboard.dashcards || []) {
+    if (options.dashcard_ids && !options.dashcard_ids.includes(dashcard.id)) {
+      continue;
+    }
+    const card = dashcard.card;
+    if (!dashcard.card_id || !card) {
+      continue; // Text and heading cards cannot be filtered
+    }
+    const skip = (reason: string) =>
+      wiring.not_wired.push({
+        dashcard_id: dashcard.id,
+        card_id: dashcard.card_id,
+        card_name: card.name,
+        reason,
+      });
+
+    let target: any;
+    if (isNative(card.dataset_query)) {
+      const tags = Object.values(templateTags(card.dataset_query));
+      const tag = tags.find(
+        (candidate: any) =>
+          tagNames.has(String(candidate.name).toLowerCase()) ||
+          tagNames.has(String(candidate["display-name"]).toLowerCase()) ||
+          (options.field_id !== undefined &&
+            candidate.type === "dimension" &&
+            // ["field", 12, opts] or pMBQL ["field", opts, 12]
+            candidate.dimension?.includes(options.field_id)),
+      );
+      if (!tag) {
+        skip(
+          tags.length === 0
+            ? "native query has no template tags"
+            : `no template tag named ${[...tagNames].join(" or ")} (tags: ${tags.map((t: any) => t.name).join(", ")})`,
+        );
+        continue;
+      }
+      const problem = tagIncompatibility(tag, type);
+      if (problem) {
+        skip(problem);
+        continue;
+      }
+      target =
+        tag.type === "dimension"
+          ? ["dimension", ["template-tag", tag.name]]
+          : ["variable", ["template-tag", tag.name]];
+    } else {
+      if (options.field_id === undefined && !options.field_name) {
+        skip("query builder question; pass field_id or field_name to wire it");
+        continue;
+      }
+      const table = sourceTable(card.dataset_query);
+      if (typeof table !== "number") {
+        skip(
+          "question is based on another saved question or model; map it manually",
+        );
+        continue;
+      }
+      const fields = await fieldsOf(table);
+      const wanted = options.field_name?.toLowerCase();
+      const field = fields.find((candidate) =>
+        options.field_id !== undefined
+          ? candidate.id === options.field_id
+          : String(candidate.name).toLowerCase() === wanted ||
+            String(candidate.display_name).toLowerCase() === wanted,
+      );
+      if (!field) {
+        skip(
+          `field ${options.field_id ?? `"${options.field_name}"`} is not on the question's source table`,
+        );
+        continue;
+      }
+      const problem = fieldIncompatibility(field, type);
+      if (problem) {
+        skip(problem);
+        continue;
+      }
+      target = ["dimension", ["field", field.id, null]];
+    }
+
+    wiring.mappings.set(dashcard.id, [
+      { parameter_id: parameter.id, card_id: dashcard.card_id, target },
+    ]);
+    wiring.wired.push({
+      dashcard_id: dashcard.id,
+      card_id: dashcard.card_id,
+      card_name: card.name,
+      target,
+    });
+  }
+
+  return wiring;
+}
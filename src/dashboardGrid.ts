@@ -0,0 +1,146 @@
+/**
+ * 仪表板网格布局
+ * 基于 Metabase 的 24 列网格：按可视化类型给出默认尺寸，
+ * 为新卡片寻找第一个空闲位置，并对已有布局做紧凑排列（pack）或按默认尺寸重排（reflow）。
+ */
+
+import { GRID_COLUMNS } from "./dashboardLayout.js";
+
+export interface GridSize {
+  size_x: number;
+  size_y: number;
+}
+
+export interface GridRect extends GridSize {
+  row: number;
+  col: number;
+}
+
+export const RELAYOUT_MODES = ["pack", "reflow"] as const;
+
+export type RelayoutMode = (typeof RELAYOUT_MODES)[number];
+
+// 按可视化类型的默认尺寸
+const DEFAULT_SIZES: Record<string, GridSize> = {
+  scalar: { size_x: 6, size_y: 3 },
+  smartscalar: { size_x: 6, size_y: 3 },
+  gauge: { size_x: 6, size_y: 4 },
+  progress: { size_x: 6, size_y: 3 },
+  table: { size_x: 24, size_y: 8 },
+  pivot: { size_x: 24, size_y: 8 },
+  object: { size_x: 12, size_y: 8 },
+  line: { size_x: 12, size_y: 6 },
+  bar: { size_x: 12, size_y: 6 },
+  area: { size_x: 12, size_y: 6 },
+  combo: { size_x: 12, size_y: 6 },
+  row: { size_x: 12, size_y: 6 },
+  scatter: { size_x: 12, size_y: 6 },
+  waterfall: { size_x: 12, size_y: 6 },
+  pie: { size_x: 8, size_y: 6 },
+  funnel: { size_x: 8, size_y: 6 },
+  map: { size_x: 12, size_y: 8 },
+  heading: { size_x: 24, size_y: 1 },
+  text: { size_x: 12, size_y: 3 },
+  link: { size_x: 6, size_y: 1 },
+};
+
+const FALLBACK_SIZE: GridSize = { size_x: 12, size_y: 6 };
+
+export function defaultCardSize(display: string | undefined): GridSize {
+  return DEFAULT_SIZES[display || ""] || FALLBACK_SIZE;
+}
+
+/**
+ * dashcard 的可视化类型（文本、标题等虚拟卡片存放在 visualization_settings 中）
+ */
+export function dashcardDisplay(dashcard: any): string | undefined {
+  return (
+    dashcard.visualization_settings?.virtual_card?.display ??
+    dashcard.card?.display
+  );
+}
+
+function overlaps(a: GridRect, b: GridRect): boolean {
+  return (
+    a.col < b.col + b.size_x &&
+    b.col < a.col + a.size_x &&
+    a.row < b.row + b.size_y &&
+    b.row < a.row + a.size_y
+  );
+}
+
+/**
+ * 在已占用的区域中寻找第一个能放下指定尺寸的位置（从上到下、从左到右），
+ * 没有空位时追加到最底部
+ */
+export function findFreeSlot(occupied: GridRect[], size: GridSize): GridRect {
+  const sizeX = Math.min(size.size_x, GRID_COLUMNS);
+  const bottom = Math.max(0, ...occupied.map((rect) => rect.row + rect.size_y));
+
+  for (let row = 0; row < bottom; row++) {
+    for (let col = 0; col + sizeX <= GRID_COLUMNS; col++) {
+      const candidate = { row, col, size_x: sizeX, size_y: size.size_y };
+      if (!occupied.some((rect) => overlaps(rect, candidate))) {
+        return candidate;
+      }
+    }
+  }
+  return { row: bottom, col: 0, size_x: sizeX, size_y: size.size_y };
+}
+
+/**
+ * 行或列已经给定时，只沿另一个方向寻找空闲位置：
+ * 固定列时从上到下找，没有空位时追加到最底部；固定行时从左到右找。
+ * 固定的行放不下、或固定的列加上宽度超出网格时返回 null
+ */
+export function findFreeSlotAlong(
+  occupied: GridRect[],
+  size: GridSize,
+  fixed: { row: number } | { col: number },
+): GridRect | null {
+  const sizeX = Math.min(size.size_x, GRID_COLUMNS);
+  const fits = (row: number, col: number) => {
+    const candidate = { row, col, size_x: sizeX, size_y: size.size_y };
+    return occupied.some((rect) => overlaps(rect, candidate))
+      ? null
+      : candidate;
+  };
+
+  if ("col" in fixed) {
+    if (fixed.col + sizeX > GRID_COLUMNS) return null;
+    const bottom = Math.max(
+      0,
+      ...occupied.map((rect) => rect.row + rect.size_y),
+    );
+    for (let row = 0; row < bottom; row++) {
+      const candidate = fits(row, fixed.col);
+      if (candidate) return candidate;
+    }
+    return { row: bottom, col: fixed.col, size_x: sizeX, size_y: size.size_y };
+  }
+
+  for (let col = 0; col + sizeX <= GRID_COLUMNS; col++) {
+    const candidate = fits(fixed.row, col);
+    if (candidate) return candidate;
+  }
+  return null;
+}
+
+/**
+ * 重新排列一组卡片（同一标签页），保持原有的阅读顺序
+ * - pack：保留尺寸，依次放到第一个空闲位置，消除空隙与重叠
+ * - reflow：先按可视化类型恢复默认尺寸，再依次放置
+ */
+export function relayout<T extends GridRect>(
+  cards: T[],
+  mode: RelayoutMode,
+  sizeOf: (card: T) => GridSize,
+): (T & GridRect)[] {
+  const ordered = [...cards].sort((a, b) => a.row - b.row || a.col - b.col);
+  const placed: (T & GridRect)[] = [];
+  for (const card of ordered) {
+    const size = mode === "reflow" ? sizeOf(card) : card;
+    placed.push({ ...card, ...findFreeSlot(placed, size) });
+  }
+  return placed;
+}
@@ -0,0 +1,428 @@
+/**
+ * 声明式仪表板布局
+ * 将期望的标签页、dashcard 和参数与当前仪表板对比，
+ * 生成一次性提交的 PUT /api/dashboard/:id 请求体以及变更摘要。
+ */
+
+import { ErrorCode, McpError } from "./errors.js";
+
+// Metabase 仪表板网格的列数
+export const GRID_COLUMNS = 24;
+
+export interface DesiredTab {
+  id?: number;
+  name: string;
+}
+
+export interface DesiredDashcard {
+  // 已有 dashcard 的 ID；省略时按 card_id 匹配，匹配不到则新建
+  id?: number;
+  // 为 null 时是文本/标题等虚拟卡片；省略时沿用按 id 匹配到的 dashcard 的卡片，新建时为虚拟卡片
+  card_id?: number | null;
+  dashboard_tab_id?: number;
+  tab_name?: string;
+  row: number;
+  col: number;
+  size_x: number;
+  size_y: number;
+  parameter_mappings?: any[];
+  series?: number[];
+  visualization_settings?: Record<string, any>;
+}
+
+export interface DesiredLayout {
+  tabs?: DesiredTab[];
+  dashcards: DesiredDashcard[];
+  parameters?: any[];
+}
+
+interface Placement {
+  row: number;
+  col: number;
+  size_x: number;
+  size_y: number;
+  dashboard_tab_id: number | null;
+}
+
+export interface LayoutSummary {
+  tabs: {
+    added: string[];
+    renamed: { id: number; from: string; to: string }[];
+    removed: { id: number; name: string }[];
+  };
+  dashcards: {
+    added: ({ card_id: number | null } & Placement)[];
+    moved: {
+      id: number;
+      card_id: number | null;
+      from: Placement;
+      to: Placement;
+    }[];
+    changed: { id: number; card_id: number | null; fields: string[] }[];
+    removed: { id: number; card_id: number | null }[];
+    // 换了卡片的 dashcard 上不再适用的筛选器连接（参数 ID）
+    dropped_mappings: {
+      id: number;
+      card_id: number | null;
+      parameters: string[];
+    }[];
+    unchanged: number;
+  };
+  parameters: { added: string[]; changed: string[]; removed: string[] };
+  // 同一标签页中互相重叠的 dashcard
+  overlaps: { a: string; b: string }[];
+}
+
+export interface LayoutPlan {
+  changed: boolean;
+  body: { dashcards: any[]; tabs: any[]; parameters: any[] };
+  summary: LayoutSummary;
+}
+
+/**
+ * 计算期望布局与当前仪表板之间的差异
+ */
+export function planDashboardLayout(
+  dashboard: any,
+  desired: DesiredLayout,
+): LayoutPlan {
+  if (!Array.isArray(desired.dashcards)) {
+    throw new McpError(ErrorCode.InvalidParams, "dashcards must be an array");
+  }
+
+  const liveTabs: any[] = dashboard.tabs || [];
+  const liveCards: any[] = dashboard.dashcards || [];
+  const liveParameters: any[] = dashboard.parameters || [];
+
+  const summary: LayoutSummary = {
+    tabs: { added: [], renamed: [], removed: [] },
+    dashcards: {
+      added: [],
+      moved: [],
+      changed: [],
+      removed: [],
+      dropped_mappings: [],
+      unchanged: 0,
+    },
+    parameters: { added: [], changed: [], removed: [] },
+    overlaps: [],
+  };
+
+  // Tabs: match by id, then by name; new tabs get negative ids
+  let tabs = liveTabs.map((tab) => ({ id: tab.id, name: tab.name }));
+  if (desired.tabs) {
+    const claimed = new Set<number>();
+    tabs = desired.tabs.map((tab, index) => {
+      const live =
+        tab.id !== undefined
+          ? liveTabs.find((candidate) => candidate.id === tab.id)
+          : liveTabs.find(
+              (candidate) =>
+                candidate.name === tab.name && !claimed.has(candidate.id),
+            );
+      if (tab.id !== undefined && !live) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Tab ${tab.id} does not exist on dashboard ${dashboard.id}`,
+        );
+      }
+      if (!live) {
+        summary.tabs.added.push(tab.name);
+        return { id: -(index + 1), name: tab.name };
+      }
+      claimed.add(live.id);
+      if (live.name !== tab.name) {
+        summary.tabs.renamed.push({
+          id: live.id,
+          from: live.name,
+          to: tab.name,
+        });
+      }
+      return { id: live.id, name: tab.name };
+    });
+    for (const tab of liveTabs) {
+      if (!claimed.has(tab.id)) {
+        summary.tabs.removed.push({ id: tab.id, name: tab.name });
+      }
+    }
+  }
+
+  const resolveTab = (card: DesiredDashcard, label: string): number | null => {
+    if (card.tab_name !== undefined) {
+      const tab = tabs.find((candidate) => candidate.name === card.tab_name);
+      if (!tab) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${label}: unknown tab "${card.tab_name}". Tabs: ${tabs.map((t) => t.name).join(", ") || "(none)"}`,
+        );
+      }
+      return tab.id;
+    }
+    if (card.dashboard_tab_id !== undefined) {
+      if (!tabs.some((tab) => tab.id === card.dashboard_tab_id)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${label}: unknown dashboard_tab_id ${card.dashboard_tab_id}`,
+        );
+      }
+      return card.dashboard_tab_id;
+    }
+    // Dashboards with tabs need every dashcard on a tab
+    return tabs.length > 0 ? tabs[0].id : null;
+  };
+
+  // Dashcards: match by id, then by card_id when exactly one live dashcard shows that card
+  const explicitIds = new Set(
+    desired.dashcards.map((card) => card.id).filter((id) => id !== undefined),
+  );
+  const claimed = new Set<number>();
+  let nextNewId = -1;
+  const dashcards = desired.dashcards.map((card, index) => {
+    const label = `dashcards[${index}]`;
+    validatePlacement(card, label);
+
+    let live: any;
+    if (card.id !== undefined) {
+      live = liveCards.find((candidate) => candidate.id === card.id);
+      if (!live) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${label}: dashcard ${card.id} does not exist on dashboard ${dashboard.id}`,
+        );
+      }
+      if (claimed.has(live.id)) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `${label}: dashcard ${card.id} is listed more than once`,
+        );
+      }
+    } else if (card.card_id != null) {
+      const candidates = liveCards.filter(
+        (candidate) =>
+          candidate.card_id === card.card_id &&
+          !claimed.has(candidate.id) &&
+          !explicitIds.has(candidate.id),
+      );
+      if (candidates.length === 1) live = candidates[0];
+    }
+
+    // Moving a dashcard by id keeps its card unless card_id is given
+    const cardId =
+      card.card_id === undefined ? (live?.card_id ?? null) : card.card_id;
+    // The live mappings target the old card's fields and template tags
+    const cardChanged = live !== undefined && (live.card_id ?? null) !== cardId;
+    const liveMappings = cardChanged ? [] : live?.parameter_mappings;
+    if (
+      cardChanged &&
+      card.parameter_mappings === undefined &&
+      live.parameter_mappings?.length > 0
+    ) {
+      summary.dashcards.dropped_mappings.push({
+        id: live.id,
+        card_id: live.card_id,
+        parameters: live.parameter_mappings.map(
+          (mapping: any) => mapping.parameter_id,
+        ),
+      });
+    }
+    const liveSeries = (live?.series || []).map((series: any) => series.id);
+    const series = card.series ?? liveSeries;
+    const next = {
+      id: live ? live.id : nextNewId--,
+      card_id: cardId,
+      dashboard_tab_id: resolveTab(card, label),
+      row: card.row,
+      col: card.col,
+      size_x: card.size_x,
+      size_y: card.size_y,
+      series: series.map((id: number) => ({ id })),
+      visualization_settings:
+        card.visualization_settings ?? live?.visualization_settings ?? {},
+      // Mappings default to the dashcard's own card
+      parameter_mappings: (card.parameter_mappings ?? liveMappings ?? []).map(
+        (mapping: any) => ({ card_id: cardId, ...mapping }),
+      ),
+    };
+
+    if (!live) {
+      summary.dashcards.added.push({
+        card_id: next.card_id,
+        ...placementOf(next),
+      });
+      return next;
+    }
+
+    claimed.add(live.id);
+    const from = placementOf(live);
+    const to = placementOf(next);
+    if (!sameJson(from, to)) {
+      summary.dashcards.moved.push({
+        id: live.id,
+        card_id: live.card_id,
+        from,
+        to,
+      });
+    }
+    const fields = [];
+    if ((live.card_id ?? null) !== next.card_id) fields.push("card_id");
+    if (!sameJson(liveSeries, series)) fields.push("series");
+    if (
+      !sameJson(live.visualization_settings || {}, next.visualization_settings)
+    ) {
+      fields.push("visualization_settings");
+    }
+    if (
+      !sameJson(
+        (live.parameter_mappings || []).map((mapping: any) => ({
+          card_id: live.card_id,
+          ...mapping,
+        })),
+        next.parameter_mappings,
+      )
+    ) {
+      fields.push("parameter_mappings");
+    }
+    if (fields.length > 0) {
+      summary.dashcards.changed.push({
+        id: live.id,
+        card_id: next.card_id,
+        fields,
+      });
+    } else if (sameJson(from, to)) {
+      summary.dashcards.unchanged++;
+    }
+    return next;
+  });
+
+  for (const card of liveCards) {
+    if (!claimed.has(card.id)) {
+      summary.dashcards.removed.push({ id: card.id, card_id: card.card_id });
+    }
+  }
+
+  // Parameters are matched by id
+  const parameters = desired.parameters ?? liveParameters;
+  if (desired.parameters) {
+    for (const parameter of desired.parameters) {
+      if (!parameter?.id) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Every parameter needs an id",
+        );
+      }
+      const live = liveParameters.find(
+        (candidate) => candidate.id === parameter.id,
+      );
+      if (!live) summary.parameters.added.push(parameter.id);
+      else if (!sameJson(live, parameter)) {
+        summary.parameters.changed.push(parameter.id);
+      }
+    }
+    for (const parameter of liveParameters) {
+      if (!desired.parameters.some((p) => p.id === parameter.id)) {
+        summary.parameters.removed.push(parameter.id);
+      }
+    }
+  }
+
+  summary.overlaps = findOverlaps(dashcards);
+
+  const changed =
+    summary.tabs.added.length +
+      summary.tabs.renamed.length +
+      summary.tabs.removed.length +
+      summary.dashcards.added.length +
+      summary.dashcards.moved.length +
+      summary.dashcards.changed.length +
+      summary.dashcards.removed.length +
+      summary.parameters.added.length +
+      summary.parameters.changed.length +
+      summary.parameters.removed.length >
+    0;
+
+  return { changed, body: { dashcards, tabs, parameters }, summary };
+}
+
+/**
+ * 检查位置和尺寸：非负整数，且不超出 24 列网格
+ */
+export function validatePlacement(
+  card: Pick<DesiredDashcard, "row" | "col" | "size_x" | "size_y">,
+  label: string,
+) {
+  for (const key of ["row", "col", "size_x", "size_y"] as const) {
+    if (!Number.isInteger(card[key]) || card[key] < 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${label}: ${key} must be a non-negative integer`,
+      );
+    }
+  }
+  if (card.size_x < 1 || card.size_y < 1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${label}: size_x and size_y must be at least 1`,
+    );
+  }
+  if (card.col + card.size_x > GRID_COLUMNS) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `${label}: col + size_x (${card.col} + ${card.size_x}) must not exceed the ${GRID_COLUMNS}-column grid`,
+    );
+  }
+}
+
+function placementOf(card: any): Placement {
+  return {
+    row: card.row,
+    col: card.col,
+    size_x: card.size_x,
+    size_y: card.size_y,
+    dashboard_tab_id: card.dashboard_tab_id ?? null,
+  };
+}
+
+function findOverlaps(cards: any[]): { a: string; b: string }[] {
+  const label = (card: any) =>
+    card.id > 0 ? `dashcard ${card.id}` : `new card ${card.card_id}`;
+  const overlaps = [];
+  for (let i = 0; i < cards.length; i++) {
+    for (let j = i + 1; j < cards.length; j++) {
+      const a = cards[i];
+      const b = cards[j];
+      if (
+        a.dashboard_tab_id === b.dashboard_tab_id &&
+        a.col < b.col + b.size_x &&
+        b.col < a.col + a.size_x &&
+        a.row < b.row + b.size_y &&
+        b.row < a.row + a.size_y
+      ) {
+        overlaps.push({ a: label(a), b: label(b) });
+      }
+    }
+  }
+  return overlaps;
+}
+
+/**
+ * 比较两个值的 JSON 表示（对象键顺序无关）
+ */
+function sameJson(a: unknown, b: unknown): boolean {
+  return stableStringify(a) === stableStringify(b);
+}
+
+function stableStringify(value: unknown): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(stableStringify).join(",")}]`;
+  }
+  if (value && typeof value === "object") {
+    return `{${Object.keys(value)
+      .sort()
+      .map(
+        (key) =>
+          `${JSON.stringify(key)}:${stableStringify((value as any)[key])}`,
+      )
+      .join(",")}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
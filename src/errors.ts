@@ -0,0 +1,18 @@
+// 自定义错误枚举（取值为 JSON-RPC 错误码，SDK 会把非整数错误码一律报告为 InternalError）
+export enum ErrorCode {
+  InternalError = -32603,
+  InvalidRequest = -32600,
+  InvalidParams = -32602,
+  MethodNotFound = -32601,
+}
+
+// 自定义错误类
+export class McpError extends Error {
+  code: ErrorCode;
+
+  constructor(code: ErrorCode, message: string) {
+    super(message);
+    this.code = code;
+    this.name = "McpError";
+  }
+}
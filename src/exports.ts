@@ -0,0 +1,241 @@
+/**
+ * 查询结果文件导出
+ * 将 Metabase 导出接口（CSV / XLSX / JSON）返回的文件写入本地导出目录，
+ * 并统计行数，以便直接交付报表而无需经过模型；文件通过 metabase://export/{file_name} 资源读取。
+ */
+
+import { randomBytes } from "node:crypto";
+import { mkdir, readFile, writeFile } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import path from "node:path";
+import { inflateRawSync } from "node:zlib";
+import { ErrorCode, McpError } from "./errors.js";
+
+export const EXPORT_FORMATS = ["csv", "xlsx", "json"] as const;
+
+export type ExportFormat = (typeof EXPORT_FORMATS)[number];
+
+export const DEFAULT_EXPORT_DIR = path.join(tmpdir(), "metabase-mcp-exports");
+
+const MIME_TYPES: Record<ExportFormat, string> = {
+  csv: "text/csv",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  json: "application/json",
+};
+
+export function parseExportFormat(value: unknown): ExportFormat {
+  if (!EXPORT_FORMATS.includes(value as ExportFormat)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown export format "${value}". Expected one of: ${EXPORT_FORMATS.join(", ")}`,
+    );
+  }
+  return value as ExportFormat;
+}
+
+export interface ExportedFile {
+  path: string;
+  uri: string;
+  name: string;
+  format: ExportFormat;
+  mime_type: string;
+  size_bytes: number;
+  // 数据行数（不含表头），无法统计时为 null
+  row_count: number | null;
+}
+
+/**
+ * 导出文件的资源 URI
+ */
+export function exportResourceUri(name: string): string {
+  return `metabase://export/${encodeURIComponent(name)}`;
+}
+
+/**
+ * HTTP 会话专用的导出子目录：会话之间互相看不到对方导出的文件
+ */
+export function sessionExportDir(exportDir: string): string {
+  return path.join(exportDir, `session-${randomBytes(8).toString("hex")}`);
+}
+
+/**
+ * 将导出文件写入导出目录；不覆盖已有文件
+ * @param baseName 未指定文件名时使用的前缀，例如 "card-12"
+ * @param fileName 调用方指定的文件名（只取文件名部分，扩展名按格式补全）
+ */
+export async function writeExportFile(
+  exportDir: string,
+  baseName: string,
+  format: ExportFormat,
+  data: Buffer,
+  fileName?: string,
+): Promise<ExportedFile> {
+  let name = fileName
+    ? path.basename(fileName).replace(/[^\w.\- ]/g, "_")
+    : `${baseName}-${new Date().toISOString().replace(/[:.]/g, "-")}-${randomBytes(4).toString("hex")}`;
+  if (!name.toLowerCase().endsWith(`.${format}`)) {
+    name = `${name}.${format}`;
+  }
+
+  const dir = path.resolve(exportDir);
+  await mkdir(dir, { recursive: true });
+  const filePath = path.join(dir, name);
+  try {
+    await writeFile(filePath, data, { flag: "wx" });
+  } catch (error: any) {
+    if (error?.code === "EEXIST") {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Cannot write "${name}" to the export directory`,
+      );
+    }
+    throw error;
+  }
+
+  return {
+    path: filePath,
+    uri: exportResourceUri(name),
+    name,
+    format,
+    mime_type: MIME_TYPES[format],
+    size_bytes: data.length,
+    row_count: countExportRows(format, data),
+  };
+}
+
+/**
+ * 读取导出目录中的文件（只取文件名部分，不允许访问导出目录以外的路径）
+ */
+export async function readExportFile(
+  exportDir: string,
+  fileName: string,
+): Promise<Buffer> {
+  const filePath = path.join(path.resolve(exportDir), path.basename(fileName));
+  try {
+    return await readFile(filePath);
+  } catch {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Cannot read "${path.basename(fileName)}" from the export directory`,
+    );
+  }
+}
+
+/**
+ * 读取导出文件资源：CSV 和 JSON 以文本返回，XLSX 以 base64 返回
+ */
+export async function readExportResource(
+  exportDir: string,
+  fileName: string,
+): Promise<{ mimeType: string; text?: string; blob?: string }> {
+  const format = EXPORT_FORMATS.find((candidate) =>
+    fileName.toLowerCase().endsWith(`.${candidate}`),
+  );
+  if (!format) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `"${fileName}" is not an exported file`,
+    );
+  }
+  const data = await readExportFile(exportDir, fileName);
+  return format === "xlsx"
+    ? { mimeType: MIME_TYPES[format], blob: data.toString("base64") }
+    : { mimeType: MIME_TYPES[format], text: data.toString("utf8") };
+}
+
+/**
+ * 统计导出文件中的数据行数
+ */
+export function countExportRows(
+  format: ExportFormat,
+  data: Buffer,
+): number | null {
+  try {
+    if (format === "json") {
+      const parsed = JSON.parse(data.toString("utf8"));
+      return Array.isArray(parsed) ? parsed.length : null;
+    }
+    if (format === "csv") {
+      return Math.max(0, countCsvRecords(data.toString("utf8")) - 1);
+    }
+    const sheet = readZipEntry(data, "xl/worksheets/sheet1.xml");
+    if (!sheet) {
+      return null;
+    }
+    const rows = sheet.toString("utf8").match(/<row[\s>]/g)?.length ?? 0;
+    return Math.max(0, rows - 1);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * 统计 CSV 记录数（引号内的换行不算作新记录）
+ */
+function countCsvRecords(text: string): number {
+  let records = 0;
+  let inQuotes = false;
+  let hasContent = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (ch === '"') {
+      inQuotes = !inQuotes;
+      hasContent = true;
+    } else if (ch === "\n" && !inQuotes) {
+      if (hasContent) records++;
+      hasContent = false;
+    } else if (ch !== "\r") {
+      hasContent = true;
+    }
+  }
+  return hasContent ? records + 1 : records;
+}
+
+/**
+ * 从 ZIP（XLSX）文件中读取单个条目
+ */
+function readZipEntry(zip: Buffer, entryName: string): Buffer | null {
+  // End of central directory record: signature 0x06054b50, searched from the end
+  let eocd = -1;
+  for (let i = zip.length - 22; i >= Math.max(0, zip.length - 65557); i--) {
+    if (zip.readUInt32LE(i) === 0x06054b50) {
+      eocd = i;
+      break;
+    }
+  }
+  if (eocd === -1) {
+    return null;
+  }
+
+  const entries = zip.readUInt16LE(eocd + 10);
+  let offset = zip.readUInt32LE(eocd + 16);
+
+  for (let i = 0; i < entries; i++) {
+    if (zip.readUInt32LE(offset) !== 0x02014b50) {
+      return null;
+    }
+    const method = zip.readUInt16LE(offset + 10);
+    const compressedSize = zip.readUInt32LE(offset + 20);
+    const nameLength = zip.readUInt16LE(offset + 28);
+    const extraLength = zip.readUInt16LE(offset + 30);
+    const commentLength = zip.readUInt16LE(offset + 32);
+    const localHeader = zip.readUInt32LE(offset + 42);
+    const name = zip.toString("utf8", offset + 46, offset + 46 + nameLength);
+
+    if (name === entryName) {
+      const dataStart =
+        localHeader +
+        30 +
+        zip.readUInt16LE(localHeader + 26) +
+        zip.readUInt16LE(localHeader + 28);
+      const compressed = zip.subarray(dataStart, dataStart + compressedSize);
+      // 0 = stored, 8 = deflate
+      return method === 8 ? inflateRawSync(compressed) : compressed;
+    }
+
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return null;
+}
@@ -0,0 +1,214 @@
+/**
+ * Streamable HTTP 传输
+ * 在单个 HTTP 端点上提供 MCP Streamable HTTP 传输：
+ * - 每个请求都校验静态 Bearer 令牌
+ * - 每个 MCP 会话拥有独立的 Server 实例
+ * - /healthz 健康检查端点（无需认证）
+ */
+
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import http, { IncomingMessage, ServerResponse } from "node:http";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+
+// 请求体大小上限（4 MB）
+const MAX_BODY_BYTES = 4 * 1024 * 1024;
+
+export interface HttpServerOptions {
+  host: string;
+  port: number;
+  // MCP 端点路径，例如 "/mcp"
+  path: string;
+  // 允许的 Bearer 令牌，至少需要一个
+  authTokens: string[];
+  // 为新会话创建 Server 实例，可读取初始化请求的请求头
+  createServer: (req: IncomingMessage) => Server | Promise<Server>;
+  logInfo: (message: string, data?: unknown) => void;
+  logError: (message: string, error: unknown) => void;
+}
+
+export interface HttpServerHandle {
+  close(): Promise<void>;
+}
+
+interface HttpSession {
+  server: Server;
+  transport: StreamableHTTPServerTransport;
+}
+
+export class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.status = status;
+    this.name = "HttpError";
+  }
+}
+
+/**
+ * 启动 HTTP 服务器
+ */
+export async function startHttpServer(
+  options: HttpServerOptions,
+): Promise<HttpServerHandle> {
+  if (options.authTokens.length === 0) {
+    throw new Error(
+      "At least one bearer token (MCP_AUTH_TOKENS) is required for the HTTP transport",
+    );
+  }
+
+  const sessions = new Map<string, HttpSession>();
+  const tokens = options.authTokens.map((token) => Buffer.from(token));
+
+  const isAuthorized = (req: IncomingMessage): boolean => {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization || "");
+    if (!match) {
+      return false;
+    }
+    const presented = Buffer.from(match[1].trim());
+    // Compare against every token so timing does not reveal which one matched
+    let authorized = false;
+    for (const token of tokens) {
+      if (
+        token.length === presented.length &&
+        timingSafeEqual(token, presented)
+      ) {
+        authorized = true;
+      }
+    }
+    return authorized;
+  };
+
+  const handleMcpRequest = async (
+    req: IncomingMessage,
+    res: ServerResponse,
+  ) => {
+    const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (typeof sessionId === "string") {
+      const session = sessions.get(sessionId);
+      if (!session) {
+        throw new HttpError(404, "Session not found");
+      }
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== "POST" || !isInitializeRequest(body)) {
+      throw new HttpError(400, "Bad Request: No valid session ID provided");
+    }
+
+    const server = await options.createServer(req);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        sessions.set(id, { server, transport });
+        options.logInfo("HTTP session initialized", {
+          sessionId: id,
+          activeSessions: sessions.size,
+        });
+      },
+    });
+    transport.onclose = () => {
+      if (transport.sessionId && sessions.delete(transport.sessionId)) {
+        options.logInfo("HTTP session closed", {
+          sessionId: transport.sessionId,
+          activeSessions: sessions.size,
+        });
+      }
+    };
+
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  };
+
+  const httpServer = http.createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || "/", "http://localhost");
+
+    try {
+      if (pathname === "/healthz") {
+        if (req.method !== "GET") {
+          throw new HttpError(405, "Method not allowed");
+        }
+        sendJson(res, 200, { status: "ok", sessions: sessions.size });
+        return;
+      }
+
+      if (pathname !== options.path) {
+        throw new HttpError(404, "Not found");
+      }
+
+      if (!isAuthorized(req)) {
+        res.setHeader("WWW-Authenticate", "Bearer");
+        throw new HttpError(401, "Unauthorized");
+      }
+
+      await handleMcpRequest(req, res);
+    } catch (error) {
+      if (!(error instanceof HttpError)) {
+        options.logError("Failed to handle HTTP request", error);
+      }
+      if (!res.headersSent) {
+        sendJson(res, error instanceof HttpError ? error.status : 500, {
+          jsonrpc: "2.0",
+          error: {
+            code: -32000,
+            message:
+              error instanceof HttpError
+                ? error.message
+                : "Internal server error",
+          },
+          id: null,
+        });
+      }
+    }
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    httpServer.once("error", reject);
+    httpServer.listen(options.port, options.host, () => {
+      httpServer.off("error", reject);
+      resolve();
+    });
+  });
+
+  return {
+    async close() {
+      for (const session of sessions.values()) {
+        await session.server.close();
+      }
+      sessions.clear();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    },
+  };
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+  const chunks: Buffer[] = [];
+  let size = 0;
+  for await (const chunk of req) {
+    size += chunk.length;
+    if (size > MAX_BODY_BYTES) {
+      throw new HttpError(413, "Request body too large");
+    }
+    chunks.push(chunk);
+  }
+
+  const raw = Buffer.concat(chunks).toString("utf8");
+  if (!raw) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(raw);
+  } catch {
+    throw new HttpError(400, "Parse error: request body is not valid JSON");
+  }
+}
+
+function sendJson(res: ServerResponse, status: number, data: unknown) {
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(data));
+}
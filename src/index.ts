@@ -14,1667 +14,849 @@ global.AbortController = global.AbortController || AbortController;
  * - 获取仪表板详情
  */
 
+import { parseArgs } from "node:util";
 import { Server } from "@modelcontextprotocol/sdk/server/index.js";
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import {
   CallToolRequestSchema,
+  GetPromptRequestSchema,
+  ListPromptsRequestSchema,
   ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ListToolsRequestSchema,
   ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
 } from "@modelcontextprotocol/sdk/types.js";
-import axios, { AxiosInstance } from "axios";
-import { z } from "zod";
-
-// 自定义错误枚举
-enum ErrorCode {
-  InternalError = "internal_error",
-  InvalidRequest = "invalid_request",
-  InvalidParams = "invalid_params",
-  MethodNotFound = "method_not_found",
+import axios from "axios";
+import { IncomingMessage } from "node:http";
+import { ErrorCode, McpError } from "./errors.js";
+import {
+  DEFAULT_EXPORT_DIR,
+  readExportResource,
+  sessionExportDir,
+} from "./exports.js";
+import { HttpError, startHttpServer } from "./httpServer.js";
+import { logError, logInfo } from "./logger.js";
+import {
+  DEFAULT_INSTANCE_NAME,
+  loadInstancesConfig,
+  MetabaseConnections,
+} from "./instances.js";
+import { MetabaseClient, MetabaseCredentials } from "./metabaseClient.js";
+import { getPrompt, PromptDefinition, PROMPTS } from "./prompts.js";
+import {
+  listResources,
+  readCollectionItemsResource,
+  readFieldResource,
+  readTableResource,
+  ResourceSource,
+} from "./resources.js";
+import { ResultPager } from "./resultPages.js";
+import { ResourceSubscriptions } from "./subscriptions.js";
+import {
+  BUILTIN_TOOLS,
+  isAvailableInReadOnlyMode,
+  isReadOnlyTool,
+  loadToolPlugins,
+  MetabaseTool,
+  parseToolArguments,
+  ToolContext,
+  ToolRegistry,
+  ToolSettings,
+  toolInputSchema,
+} from "./tools/index.js";
+
+// 传输方式配置（命令行参数优先于环境变量）
+const { values: cliOptions } = parseArgs({
+  options: {
+    transport: { type: "string" },
+    port: { type: "string" },
+    host: { type: "string" },
+  },
+});
+
+const MCP_TRANSPORT =
+  cliOptions.transport || process.env.MCP_TRANSPORT || "stdio";
+const MCP_HTTP_HOST = cliOptions.host || process.env.MCP_HTTP_HOST || "0.0.0.0";
+const MCP_HTTP_PORT = Number(
+  cliOptions.port || process.env.MCP_HTTP_PORT || 3000,
+);
+const MCP_AUTH_TOKENS = (
+  process.env.MCP_AUTH_TOKENS ||
+  process.env.MCP_AUTH_TOKEN ||
+  ""
+)
+  .split(",")
+  .map((token) => token.trim())
+  .filter(Boolean);
+
+if (MCP_TRANSPORT !== "stdio" && MCP_TRANSPORT !== "http") {
+  throw new Error(
+    `Unsupported transport "${MCP_TRANSPORT}", expected "stdio" or "http"`,
+  );
 }
 
-// 自定义错误类
-class McpError extends Error {
-  code: ErrorCode;
+if (!Number.isInteger(MCP_HTTP_PORT) || MCP_HTTP_PORT <= 0) {
+  throw new Error(
+    `Invalid HTTP port: ${cliOptions.port || process.env.MCP_HTTP_PORT}`,
+  );
+}
 
-  constructor(code: ErrorCode, message: string) {
-    super(message);
-    this.code = code;
-    this.name = "McpError";
-  }
+// 从配置文件或环境变量获取 Metabase 实例配置
+const INSTANCES_CONFIG = loadInstancesConfig();
+// HTTP 模式下强制每个会话提供自己的 Metabase 凭据
+const METABASE_REQUIRE_CLIENT_CREDENTIALS =
+  process.env.METABASE_REQUIRE_CLIENT_CREDENTIALS === "true";
+
+// 只读模式：隐藏并拒绝所有会修改 Metabase 内容的工具
+const METABASE_READ_ONLY = process.env.METABASE_READ_ONLY === "true";
+
+// execute_query 的 SQL 安全检查（默认开启）及自动追加的行数限制（0 表示不追加）
+const METABASE_SQL_GUARD = process.env.METABASE_SQL_GUARD !== "false";
+const METABASE_SQL_MAX_ROWS = Number(process.env.METABASE_SQL_MAX_ROWS ?? 2000);
+
+if (!Number.isInteger(METABASE_SQL_MAX_ROWS) || METABASE_SQL_MAX_ROWS < 0) {
+  throw new Error(
+    `Invalid METABASE_SQL_MAX_ROWS: ${process.env.METABASE_SQL_MAX_ROWS}`,
+  );
 }
 
-// 从环境变量获取 Metabase 配置
-const METABASE_URL = process.env.METABASE_URL;
-const METABASE_USERNAME = process.env.METABASE_USERNAME;
-const METABASE_PASSWORD = process.env.METABASE_PASSWORD;
-const METABASE_API_KEY = process.env.METABASE_API_KEY;
+// 资源订阅的轮询间隔及无人订阅或出错时的退避上限（秒，间隔为 0 表示不支持订阅）
+const METABASE_POLL_INTERVAL = Number(process.env.METABASE_POLL_INTERVAL ?? 60);
+const METABASE_POLL_MAX_INTERVAL = Number(
+  process.env.METABASE_POLL_MAX_INTERVAL ?? 900,
+);
 
-if (
-  !METABASE_URL ||
-  (!METABASE_API_KEY && (!METABASE_USERNAME || !METABASE_PASSWORD))
-) {
+if (!(METABASE_POLL_INTERVAL >= 0)) {
   throw new Error(
-    "Either (METABASE_URL and METABASE_API_KEY) or (METABASE_URL, METABASE_USERNAME, and METABASE_PASSWORD) environment variables are required",
+    `Invalid METABASE_POLL_INTERVAL: ${process.env.METABASE_POLL_INTERVAL}`,
   );
 }
 
-// 创建自定义 Schema 对象，使用 z.object
-const ListResourceTemplatesRequestSchema = z.object({
-  method: z.literal("resources/list_templates"),
-});
+if (!(METABASE_POLL_MAX_INTERVAL >= METABASE_POLL_INTERVAL)) {
+  throw new Error(
+    `Invalid METABASE_POLL_MAX_INTERVAL: ${process.env.METABASE_POLL_MAX_INTERVAL} (must be at least METABASE_POLL_INTERVAL)`,
+  );
+}
 
-const ListToolsRequestSchema = z.object({
-  method: z.literal("tools/list"),
-});
+// 导出文件的本地目录
+const METABASE_EXPORT_DIR =
+  process.env.METABASE_EXPORT_DIR || DEFAULT_EXPORT_DIR;
+
+// 传给工具处理函数的服务器配置
+const TOOL_SETTINGS: ToolSettings = {
+  readOnly: METABASE_READ_ONLY,
+  sqlGuard: METABASE_SQL_GUARD,
+  sqlMaxRows: METABASE_SQL_MAX_ROWS,
+  exportDir: METABASE_EXPORT_DIR,
+};
+
+// 自定义工具：目录中的模块，以及逗号分隔的 npm 包名称
+const METABASE_TOOL_DIR = process.env.METABASE_TOOL_DIR || undefined;
+const METABASE_TOOL_PACKAGES = (process.env.METABASE_TOOL_PACKAGES || "")
+  .split(",")
+  .map((name) => name.trim())
+  .filter(Boolean);
+
+// Over HTTP, each session may bring its own credentials instead
+if (MCP_TRANSPORT === "stdio") {
+  for (const instance of INSTANCES_CONFIG.instances) {
+    if (!instance.credentials) {
+      throw new Error(
+        instance.name === DEFAULT_INSTANCE_NAME
+          ? "Either (METABASE_URL and METABASE_API_KEY) or (METABASE_URL, METABASE_USERNAME, and METABASE_PASSWORD) environment variables are required"
+          : `Metabase instance "${instance.name}" requires either apiKey or username and password`,
+      );
+    }
+  }
+}
+
+/**
+ * 从 HTTP 初始化请求的请求头中读取会话级 Metabase 凭据
+ * 默认实例使用 X-Metabase-Api-Key 等请求头，其他实例在请求头后追加 "-<实例名>"
+ */
+function readClientCredentials(
+  req: IncomingMessage,
+  instance: string,
+): MetabaseCredentials | null {
+  const suffix =
+    instance === INSTANCES_CONFIG.defaultInstance ? "" : `-${instance}`;
+  const header = (name: string) => {
+    const value = req.headers[`${name}${suffix}`.toLowerCase()];
+    return typeof value === "string" && value ? value : undefined;
+  };
+
+  const apiKey = header("x-metabase-api-key");
+  const sessionToken = header("x-metabase-session");
+  const username = header("x-metabase-username");
+  const password = header("x-metabase-password");
+
+  if (apiKey) {
+    return { apiKey };
+  }
+  if (sessionToken) {
+    return { sessionToken };
+  }
+  if (username && password) {
+    return { username, password };
+  }
+  if (username || password) {
+    throw new HttpError(
+      401,
+      `Both X-Metabase-Username${suffix} and X-Metabase-Password${suffix} headers are required`,
+    );
+  }
+  return null;
+}
+
+/**
+ * 构造资源 URI：配置了多个实例时带上实例名称，例如 metabase://prod/dashboard/12
+ */
+function buildResourceUri(
+  connections: MetabaseConnections,
+  instance: string,
+  path: string,
+): string {
+  return connections.isMultiInstance
+    ? `metabase://${instance}/${path}`
+    : `metabase://${path}`;
+}
+
+/**
+ * 解析资源 URI，省略实例名称时使用默认实例
+ */
+function parseResourceUri(
+  connections: MetabaseConnections,
+  uri: string,
+): { instance?: string; path: string } {
+  const match = uri?.match(/^metabase:\/\/(.+)$/);
+  if (!match) {
+    throw new McpError(ErrorCode.InvalidRequest, `Invalid URI format: ${uri}`);
+  }
+  const [first, ...rest] = match[1].split("/");
+  if (rest.length >= 2 && connections.names.includes(first)) {
+    return { instance: first, path: rest.join("/") };
+  }
+  return { path: match[1] };
+}
+
+/**
+ * tools/list 中的工具描述；除 list_instances 这类工具外都添加可选的 instance 参数，
+ * 只读模式下保留的写入工具标为只读
+ */
+function describeTool(tool: MetabaseTool, connections: MetabaseConnections) {
+  const inputSchema = toolInputSchema(tool);
+  if (tool.instanceArgument !== false) {
+    inputSchema.properties = {
+      ...inputSchema.properties,
+      instance: {
+        type: "string",
+        enum: connections.names,
+        description: `Name of the Metabase instance to use (default: ${connections.defaultInstance})`,
+      },
+    };
+  }
+  // Tools kept in read-only mode have their writes refused, so they only read
+  const annotations =
+    METABASE_READ_ONLY && tool.annotations && !isReadOnlyTool(tool)
+      ? { ...tool.annotations, readOnlyHint: true }
+      : tool.annotations;
+  return {
+    name: tool.name,
+    description: tool.description,
+    inputSchema,
+    ...(annotations ? { annotations } : {}),
+  };
+}
+
+/**
+ * prompts/list 中的提示描述；配置了多个实例时添加可选的 instance 参数
+ */
+function describePrompt(
+  prompt: PromptDefinition,
+  connections: MetabaseConnections,
+) {
+  return {
+    name: prompt.name,
+    description: prompt.description,
+    arguments: connections.isMultiInstance
+      ? [
+          ...prompt.arguments,
+          {
+            name: "instance",
+            description: `Name of the Metabase instance to use (default: ${connections.defaultInstance})`,
+          },
+        ]
+      : prompt.arguments,
+  };
+}
 
 class MetabaseServer {
-  private server: Server;
-  private axiosInstance: AxiosInstance;
-  private sessionToken: string | null = null;
+  // 使用配置凭据的共享客户端，按实例名称索引（未配置凭据的实例不在其中）
+  private sharedClients = new Map<string, MetabaseClient>();
+  // 内置工具和插件工具
+  private tools = new ToolRegistry();
 
   constructor() {
-    this.server = new Server(
+    for (const tool of BUILTIN_TOOLS) {
+      this.tools.register(tool);
+    }
+    for (const instance of INSTANCES_CONFIG.instances) {
+      if (instance.credentials) {
+        this.sharedClients.set(
+          instance.name,
+          new MetabaseClient(instance.url, instance.credentials),
+        );
+      }
+    }
+  }
+
+  /**
+   * 创建 MCP Server 实例（stdio 模式一个，HTTP 模式每个会话一个）
+   */
+  private createServer(
+    connections: MetabaseConnections,
+    settings: ToolSettings,
+  ): Server {
+    const server = new Server(
       {
         name: "metabase-server",
         version: "0.1.0",
       },
       {
         capabilities: {
-          resources: {},
+          prompts: {},
+          resources: METABASE_POLL_INTERVAL > 0 ? { subscribe: true } : {},
           tools: {},
         },
       },
     );
 
-    this.axiosInstance = axios.create({
-      baseURL: METABASE_URL,
-      headers: {
-        "Content-Type": "application/json",
-      },
-    });
-
-    if (METABASE_API_KEY) {
-      this.logInfo("Using Metabase API Key for authentication.");
-      this.axiosInstance.defaults.headers.common["X-API-Key"] =
-        METABASE_API_KEY;
-      this.sessionToken = "api_key_used"; // Indicate API key is in use
-    } else if (METABASE_USERNAME && METABASE_PASSWORD) {
-      this.logInfo("Using Metabase username/password for authentication.");
-      // Existing session token logic will apply
-    } else {
-      // This case should ideally be caught by the initial environment variable check
-      // but as a safeguard:
-      this.logError(
-        "Metabase authentication credentials not configured properly.",
-        {},
-      );
-      throw new Error(
-        "Metabase authentication credentials not provided or incomplete.",
-      );
-    }
-
-    this.setupResourceHandlers();
-    this.setupToolHandlers();
+    this.setupResourceHandlers(server, connections, settings);
+    this.setupPromptHandlers(server, connections);
+    this.setupToolHandlers(server, connections, settings, new ResultPager());
 
     // Enhanced error handling with logging
-    this.server.onerror = (error: Error) => {
-      this.logError("Server Error", error);
+    server.onerror = (error: Error) => {
+      logError("Server Error", error);
     };
 
-    process.on("SIGINT", async () => {
-      this.logInfo("Shutting down server...");
-      await this.server.close();
-      process.exit(0);
-    });
-  }
-
-  // Add logging utilities
-  private logInfo(message: string, data?: unknown) {
-    const logMessage = {
-      timestamp: new Date().toISOString(),
-      level: "info",
-      message,
-      data,
-    };
-    console.error(JSON.stringify(logMessage));
-    // MCP SDK changed, can't directly access session
-    try {
-      // Use current session if available
-      console.error(`INFO: ${message}`);
-    } catch (e) {
-      // Ignore if session not available
-    }
+    return server;
   }
 
-  private logError(message: string, error: unknown) {
-    const errorObj = error as Error;
-    const apiError = error as {
-      response?: { data?: { message?: string } };
-      message?: string;
-    };
-
-    const logMessage = {
-      timestamp: new Date().toISOString(),
-      level: "error",
-      message,
-      error: errorObj.message || "Unknown error",
-      stack: errorObj.stack,
-    };
-    console.error(JSON.stringify(logMessage));
-    // MCP SDK changed, can't directly access session
-    try {
-      console.error(
-        `ERROR: ${message} - ${errorObj.message || "Unknown error"}`,
-      );
-    } catch (e) {
-      // Ignore if session not available
+  /**
+   * 使用配置凭据的连接集合（stdio 模式）
+   */
+  private createSharedConnections(): MetabaseConnections {
+    const connections = new MetabaseConnections(
+      INSTANCES_CONFIG.defaultInstance,
+    );
+    for (const instance of INSTANCES_CONFIG.instances) {
+      connections.add(instance, this.sharedClients.get(instance.name) || null);
     }
+    return connections;
   }
 
   /**
-   * 获取 Metabase 会话令牌
+   * 为 HTTP 会话创建 Server，优先使用请求头中的会话级凭据
    */
-  private async getSessionToken(): Promise<string> {
-    if (this.sessionToken) {
-      // Handles both API key ("api_key_used") and actual session tokens
-      return this.sessionToken;
+  private createSessionServer(req: IncomingMessage): Server {
+    const connections = new MetabaseConnections(
+      INSTANCES_CONFIG.defaultInstance,
+    );
+    let usable = 0;
+
+    for (const instance of INSTANCES_CONFIG.instances) {
+      const credentials = readClientCredentials(req, instance.name);
+      if (credentials) {
+        connections.add(
+          instance,
+          new MetabaseClient(instance.url, credentials),
+          true,
+        );
+        usable++;
+      } else if (
+        !METABASE_REQUIRE_CLIENT_CREDENTIALS &&
+        this.sharedClients.has(instance.name)
+      ) {
+        connections.add(
+          instance,
+          this.sharedClients.get(instance.name) as MetabaseClient,
+        );
+        usable++;
+      } else {
+        connections.add(instance, null);
+      }
     }
 
-    // This part should only be reached if using username/password and sessionToken is null
-    this.logInfo("Authenticating with Metabase using username/password...");
-    try {
-      const response = await this.axiosInstance.post("/api/session", {
-        username: METABASE_USERNAME,
-        password: METABASE_PASSWORD,
-      });
-
-      this.sessionToken = response.data.id;
-
-      // 设置默认请求头
-      this.axiosInstance.defaults.headers.common["X-Metabase-Session"] =
-        this.sessionToken;
-
-      this.logInfo("Successfully authenticated with Metabase");
-      return this.sessionToken as string;
-    } catch (error) {
-      this.logError("Authentication failed", error);
-      throw new McpError(
-        ErrorCode.InternalError,
-        "Failed to authenticate with Metabase",
+    if (usable === 0) {
+      throw new HttpError(
+        401,
+        "Metabase credentials required: send X-Metabase-Api-Key, X-Metabase-Session, or X-Metabase-Username and X-Metabase-Password headers",
       );
     }
+
+    // Each session only sees the files it exported itself
+    const server = this.createServer(connections, {
+      ...TOOL_SETTINGS,
+      exportDir: sessionExportDir(TOOL_SETTINGS.exportDir),
+    });
+    const onclose = server.onclose;
+    server.onclose = () => {
+      onclose?.();
+      void connections.close();
+    };
+    return server;
   }
 
   /**
    * 设置资源处理程序
    */
-  private setupResourceHandlers() {
-    this.server.setRequestHandler(
-      ListResourcesRequestSchema,
-      async (request) => {
-        this.logInfo("Listing resources...", {
-          requestStructure: JSON.stringify(request),
-        });
-        if (!METABASE_API_KEY) {
-          await this.getSessionToken();
-        }
+  private setupResourceHandlers(
+    server: Server,
+    connections: MetabaseConnections,
+    settings: ToolSettings,
+  ) {
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+      logInfo("Listing resources...", {
+        requestStructure: JSON.stringify(request),
+      });
 
+      const sources: ResourceSource[] = [];
+      for (const instance of connections.names) {
         try {
-          // 获取仪表板列表
-          const dashboardsResponse =
-            await this.axiosInstance.get("/api/dashboard");
-
-          this.logInfo("Successfully listed resources", {
-            count: dashboardsResponse.data.length,
-          });
-          // 将仪表板作为资源返回
-          return {
-            resources: dashboardsResponse.data.map((dashboard: any) => ({
-              uri: `metabase://dashboard/${dashboard.id}`,
-              mimeType: "application/json",
-              name: dashboard.name,
-              description: `Metabase dashboard: ${dashboard.name}`,
-            })),
-          };
-        } catch (error) {
-          this.logError("Failed to list resources", error);
-          throw new McpError(
-            ErrorCode.InternalError,
-            "Failed to list Metabase resources",
-          );
+          sources.push({ instance, client: connections.get(instance) });
+        } catch {
+          // No credentials for this instance in the current session
         }
-      },
-    );
-
-    // 资源模板
-    this.server.setRequestHandler(
-      ListResourceTemplatesRequestSchema,
-      async () => {
-        return {
-          resourceTemplates: [
-            {
-              uriTemplate: "metabase://dashboard/{id}",
-              name: "Dashboard by ID",
-              mimeType: "application/json",
-              description: "Get a Metabase dashboard by its ID",
-            },
-            {
-              uriTemplate: "metabase://card/{id}",
-              name: "Card by ID",
-              mimeType: "application/json",
-              description: "Get a Metabase question/card by its ID",
-            },
-            {
-              uriTemplate: "metabase://database/{id}",
-              name: "Database by ID",
-              mimeType: "application/json",
-              description: "Get a Metabase database by its ID",
-            },
-          ],
-        };
-      },
-    );
+      }
 
-    // 读取资源
-    this.server.setRequestHandler(
-      ReadResourceRequestSchema,
-      async (request) => {
-        this.logInfo("Reading resource...", {
-          requestStructure: JSON.stringify(request),
+      try {
+        const page = await listResources(
+          sources,
+          request.params?.cursor,
+          (instance, path) => buildResourceUri(connections, instance, path),
+          (instance) => (connections.isMultiInstance ? instance : undefined),
+        );
+        logInfo("Successfully listed resources", {
+          count: page.resources.length,
+          hasMore: Boolean(page.nextCursor),
         });
-        if (!METABASE_API_KEY) {
-          await this.getSessionToken();
-        }
-
-        const uri = request.params?.uri;
-        let match;
-
-        try {
-          // 处理仪表板资源
-          if ((match = uri.match(/^metabase:\/\/dashboard\/(\d+)$/))) {
-            const dashboardId = match[1];
-            const response = await this.axiosInstance.get(
-              `/api/dashboard/${dashboardId}`,
-            );
-
-            return {
-              contents: [
-                {
-                  uri: request.params?.uri,
-                  mimeType: "application/json",
-                  text: JSON.stringify(response.data, null, 2),
-                },
-              ],
-            };
-          }
-
-          // 处理问题/卡片资源
-          else if ((match = uri.match(/^metabase:\/\/card\/(\d+)$/))) {
-            const cardId = match[1];
-            const response = await this.axiosInstance.get(
-              `/api/card/${cardId}`,
-            );
-
-            return {
-              contents: [
-                {
-                  uri: request.params?.uri,
-                  mimeType: "application/json",
-                  text: JSON.stringify(response.data, null, 2),
-                },
-              ],
-            };
-          }
-
-          // 处理数据库资源
-          else if ((match = uri.match(/^metabase:\/\/database\/(\d+)$/))) {
-            const databaseId = match[1];
-            const response = await this.axiosInstance.get(
-              `/api/database/${databaseId}`,
-            );
-
-            return {
-              contents: [
-                {
-                  uri: request.params?.uri,
-                  mimeType: "application/json",
-                  text: JSON.stringify(response.data, null, 2),
-                },
-              ],
-            };
-          } else {
-            throw new McpError(
-              ErrorCode.InvalidRequest,
-              `Invalid URI format: ${uri}`,
-            );
-          }
-        } catch (error) {
-          if (axios.isAxiosError(error)) {
-            throw new McpError(
-              ErrorCode.InternalError,
-              `Metabase API error: ${error.response?.data?.message || error.message}`,
-            );
-          }
+        return { ...page };
+      } catch (error) {
+        if (error instanceof McpError) {
           throw error;
         }
-      },
-    );
-  }
+        logError("Failed to list resources", error);
+        throw new McpError(
+          ErrorCode.InternalError,
+          `Failed to list Metabase resources: ${axios.isAxiosError(error) ? error.response?.data?.message || error.message : error}`,
+        );
+      }
+    });
 
-  /**
-   * 设置工具处理程序
-   */
-  private setupToolHandlers() {
-    // No session token needed for listing tools, as it's static data
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => {
+    // 资源模板
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
       return {
-        tools: [
+        resourceTemplates: [
           {
-            name: "list_dashboards",
-            description: "List all dashboards in Metabase",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
+            uriTemplate: "metabase://dashboard/{id}",
+            name: "Dashboard by ID",
+            mimeType: "application/json",
+            description: "Get a Metabase dashboard by its ID",
           },
           {
-            name: "list_cards",
-            description: "List all questions/cards in Metabase",
-            inputSchema: {
-              type: "object",
-              properties: {
-                f: {
-                  type: "string",
-                  description:
-                    "Optional filter function, possible values: archived, table, database, using_model, bookmarked, using_segment, all, mine",
-                },
-              },
-            },
+            uriTemplate: "metabase://card/{id}",
+            name: "Card by ID",
+            mimeType: "application/json",
+            description: "Get a Metabase question/card by its ID",
           },
           {
-            name: "list_databases",
-            description: "List all databases in Metabase",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
-          },
-          {
-            name: "list_collections",
-            description: "List all collections in Metabase",
-            inputSchema: {
-              type: "object",
-              properties: {},
-            },
-          },
-          {
-            name: "get_database",
-            description:
-              "Get detailed information about a specific Metabase database including tables and schema",
-            inputSchema: {
-              type: "object",
-              properties: {
-                database_id: {
-                  type: "number",
-                  description: "ID of the database",
-                },
-              },
-              required: ["database_id"],
-            },
-          },
-          {
-            name: "get_database_metadata",
-            description:
-              "Get complete metadata for a database including all tables, fields, and schema information",
-            inputSchema: {
-              type: "object",
-              properties: {
-                database_id: {
-                  type: "number",
-                  description: "ID of the database",
-                },
-              },
-              required: ["database_id"],
-            },
-          },
-          {
-            name: "execute_card",
-            description: "Execute a Metabase question/card and get results",
-            inputSchema: {
-              type: "object",
-              properties: {
-                card_id: {
-                  type: "number",
-                  description: "ID of the card/question to execute",
-                },
-                parameters: {
-                  type: "object",
-                  description: "Optional parameters for the query",
-                },
-              },
-              required: ["card_id"],
-            },
+            uriTemplate: "metabase://database/{id}",
+            name: "Database by ID",
+            mimeType: "application/json",
+            description: "Get a Metabase database by its ID",
           },
           {
-            name: "get_dashboard_cards",
-            description: "Get all cards in a dashboard",
-            inputSchema: {
-              type: "object",
-              properties: {
-                dashboard_id: {
-                  type: "number",
-                  description: "ID of the dashboard",
-                },
-              },
-              required: ["dashboard_id"],
-            },
-          },
-          {
-            name: "get_dashboard",
+            uriTemplate: "metabase://table/{id}",
+            name: "Table by ID",
+            mimeType: "application/json",
             description:
-              "Get full dashboard details including tabs, cards, and parameters",
-            inputSchema: {
-              type: "object",
-              properties: {
-                dashboard_id: {
-                  type: "number",
-                  description: "ID of the dashboard",
-                },
-              },
-              required: ["dashboard_id"],
-            },
+              "Get a table's schema, database and fields (name, type, semantic type, foreign key target)",
           },
           {
-            name: "execute_query",
+            uriTemplate: "metabase://field/{id}",
+            name: "Field by ID",
+            mimeType: "application/json",
             description:
-              "Execute a SQL query against a Metabase database, or MongoDB aggregation pipeline against MongoDB databases",
-            inputSchema: {
-              type: "object",
-              properties: {
-                database_id: {
-                  type: "number",
-                  description: "ID of the database to query",
-                },
-                query: {
-                  type: "string",
-                  description:
-                    "SQL query for SQL databases, or MongoDB aggregation pipeline as JSON string (e.g., '[{\"$limit\": 10}]') for MongoDB databases",
-                },
-                collection: {
-                  type: "string",
-                  description:
-                    "MongoDB collection name (required for MongoDB databases, e.g., 'kpj-user-profiles'). Ignored for SQL databases.",
-                },
-                native_parameters: {
-                  type: "array",
-                  description: "Optional parameters for the query",
-                  items: {
-                    type: "object",
-                  },
-                },
-              },
-              required: ["database_id", "query"],
-            },
+              "Get a field's type, table, value statistics and, for list fields, its distinct values",
           },
           {
-            name: "create_card",
+            uriTemplate: "metabase://collection/{id}/items",
+            name: "Collection items",
+            mimeType: "application/json",
             description:
-              'Create a new Metabase question (card) that will appear in collections. For MongoDB queries, use format: {"database": <database_id>, "lib/type": "mbql/query", "stages": [{"collection": "collection-name", "lib/type": "mbql.stage/native", "native": "[{...}]"}]}. For MongoDB date filtering with template tags: use string comparison instead of date objects. Convert dates to ISO strings with $dateToString, then use template tags WITHOUT quotes in the query (e.g., {"$gte": {{date_start}}}). Set template tag defaults WITH quotes (e.g., default: \'"2020-01-01T00:00:00.000Z"\'). This allows Metabase to properly substitute date values from dashboard parameters.',
-            inputSchema: {
-              type: "object",
-              properties: {
-                name: { type: "string", description: "Name of the card" },
-                dataset_query: {
-                  type: "object",
-                  additionalProperties: true,
-                  description:
-                    'The query for the card. For MongoDB: {"database": <database_id>, "lib/type": "mbql/query", "stages": [{"collection": "collection-name", "lib/type": "mbql.stage/native", "native": "[{...}]"}]}',
-                },
-                display: {
-                  type: "string",
-                  description:
-                    "Display type (e.g., 'table', 'line', 'bar', 'pie', 'scalar')",
-                },
-                visualization_settings: {
-                  type: "object",
-                  additionalProperties: true,
-                  description:
-                    'Settings for the visualization (e.g., {"graph.dimensions": ["field"], "graph.metrics": ["count"]})',
-                },
-                collection_id: {
-                  type: "number",
-                  description:
-                    "Optional ID of the collection to save the card in",
-                },
-                description: {
-                  type: "string",
-                  description: "Optional description for the card",
-                },
-              },
-              required: ["name", "dataset_query", "display"],
-            },
+              "List the questions, models, metrics, dashboards and sub-collections in a collection ('root' for the top level), with their resource URIs",
           },
           {
-            name: "update_card",
+            uriTemplate: "metabase://export/{file_name}",
+            name: "Exported file",
             description:
-              'Update an existing Metabase question (card). For MongoDB date filtering with template tags: use string comparison instead of date objects. Convert dates to ISO strings with $dateToString, then use template tags WITHOUT quotes in the query (e.g., {"$gte": {{date_start}}}). Set template tag defaults WITH quotes (e.g., default: \'"2020-01-01T00:00:00.000Z"\'). This allows Metabase to properly substitute date values from dashboard parameters.',
-            inputSchema: {
-              type: "object",
-              properties: {
-                card_id: {
-                  type: "number",
-                  description: "ID of the card to update",
-                },
-                name: { type: "string", description: "New name for the card" },
-                dataset_query: {
-                  type: "object",
-                  description: "New query for the card",
-                },
-                display: { type: "string", description: "New display type" },
-                visualization_settings: {
-                  type: "object",
-                  description: "New visualization settings",
-                },
-                collection_id: {
-                  type: "number",
-                  description: "New collection ID",
-                },
-                description: { type: "string", description: "New description" },
-                archived: {
-                  type: "boolean",
-                  description: "Set to true to archive the card",
-                },
-              },
-              required: ["card_id"],
-            },
+              "Read a file written by export_card, export_query or export_dashboard (CSV and JSON as text, XLSX as base64)",
           },
           {
-            name: "delete_card",
-            description: "Delete a Metabase question (card).",
-            inputSchema: {
-              type: "object",
-              properties: {
-                card_id: {
-                  type: "number",
-                  description: "ID of the card to delete",
-                },
-                hard_delete: {
-                  type: "boolean",
-                  description:
-                    "Set to true for hard delete, false (default) for archive",
-                  default: false,
-                },
-              },
-              required: ["card_id"],
-            },
+            uriTemplate: "metabase://{instance}/dashboard/{id}",
+            name: "Dashboard by instance and ID",
+            mimeType: "application/json",
+            description: "Get a dashboard from a named Metabase instance",
           },
           {
-            name: "create_dashboard",
-            description: "Create a new Metabase dashboard.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                name: { type: "string", description: "Name of the dashboard" },
-                description: {
-                  type: "string",
-                  description: "Optional description for the dashboard",
-                },
-                parameters: {
-                  type: "array",
-                  description: "Optional parameters for the dashboard",
-                  items: { type: "object" },
-                },
-                collection_id: {
-                  type: "number",
-                  description:
-                    "Optional ID of the collection to save the dashboard in",
-                },
-              },
-              required: ["name"],
-            },
+            uriTemplate: "metabase://{instance}/card/{id}",
+            name: "Card by instance and ID",
+            mimeType: "application/json",
+            description: "Get a question/card from a named Metabase instance",
           },
           {
-            name: "update_dashboard",
-            description: "Update an existing Metabase dashboard.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                dashboard_id: {
-                  type: "number",
-                  description: "ID of the dashboard to update",
-                },
-                name: {
-                  type: "string",
-                  description: "New name for the dashboard",
-                },
-                description: {
-                  type: "string",
-                  description: "New description for the dashboard",
-                },
-                parameters: {
-                  type: "array",
-                  description: "New parameters for the dashboard",
-                  items: { type: "object" },
-                },
-                collection_id: {
-                  type: "number",
-                  description: "New collection ID",
-                },
-                archived: {
-                  type: "boolean",
-                  description: "Set to true to archive the dashboard",
-                },
-              },
-              required: ["dashboard_id"],
-            },
+            uriTemplate: "metabase://{instance}/database/{id}",
+            name: "Database by instance and ID",
+            mimeType: "application/json",
+            description: "Get a database from a named Metabase instance",
           },
           {
-            name: "delete_dashboard",
-            description: "Delete a Metabase dashboard.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                dashboard_id: {
-                  type: "number",
-                  description: "ID of the dashboard to delete",
-                },
-                hard_delete: {
-                  type: "boolean",
-                  description:
-                    "Set to true for hard delete, false (default) for archive",
-                  default: false,
-                },
-              },
-              required: ["dashboard_id"],
-            },
-          },
-          {
-            name: "add_card_to_dashboard",
-            description: "Add an existing card to a dashboard.",
-            inputSchema: {
-              type: "object",
-              properties: {
-                dashboard_id: {
-                  type: "number",
-                  description: "ID of the dashboard to add the card to",
-                },
-                card_id: {
-                  type: "number",
-                  description: "ID of the card to add",
-                },
-                row: {
-                  type: "number",
-                  description: "Row position (default: 0)",
-                  default: 0,
-                },
-                col: {
-                  type: "number",
-                  description: "Column position (default: 0)",
-                  default: 0,
-                },
-                size_x: {
-                  type: "number",
-                  description: "Width in grid units (default: 4)",
-                  default: 4,
-                },
-                size_y: {
-                  type: "number",
-                  description: "Height in grid units (default: 4)",
-                  default: 4,
-                },
-                dashboard_tab_id: {
-                  type: "number",
-                  description:
-                    "ID of the dashboard tab to add the card to (optional)",
-                },
-              },
-              required: ["dashboard_id", "card_id"],
-            },
+            uriTemplate: "metabase://{instance}/table/{id}",
+            name: "Table by instance and ID",
+            mimeType: "application/json",
+            description:
+              "Get a table and its fields from a named Metabase instance",
           },
           {
-            name: "remove_card_from_dashboard",
-            description:
-              "Remove a card from a dashboard (does not delete the card itself, just removes it from the dashboard).",
-            inputSchema: {
-              type: "object",
-              properties: {
-                dashboard_id: {
-                  type: "number",
-                  description: "ID of the dashboard",
-                },
-                dashcard_id: {
-                  type: "number",
-                  description:
-                    "ID of the dashboard card (dashcard) to remove. Use get_dashboard_cards to find this ID.",
-                },
-              },
-              required: ["dashboard_id", "dashcard_id"],
-            },
+            uriTemplate: "metabase://{instance}/field/{id}",
+            name: "Field by instance and ID",
+            mimeType: "application/json",
+            description: "Get a field from a named Metabase instance",
           },
           {
-            name: "update_dashboard_card",
+            uriTemplate: "metabase://{instance}/collection/{id}/items",
+            name: "Collection items by instance",
+            mimeType: "application/json",
             description:
-              'Update the position, size, or parameter mappings of a card in a dashboard. For date filtering: ensure card template tags are configured correctly (see create_card/update_card descriptions), then use parameter_mappings to connect dashboard date parameters to card template tags. Example mapping: [{"parameter_id": "date_start_param", "target": ["variable", ["template-tag", "date_start"]], "card_id": 99}]',
-            inputSchema: {
-              type: "object",
-              properties: {
-                dashboard_id: {
-                  type: "number",
-                  description: "ID of the dashboard",
-                },
-                dashcard_id: {
-                  type: "number",
-                  description: "ID of the dashboard card to update",
-                },
-                row: {
-                  type: "number",
-                  description: "New row position",
-                },
-                col: {
-                  type: "number",
-                  description: "New column position",
-                },
-                size_x: {
-                  type: "number",
-                  description: "New width in grid units",
-                },
-                size_y: {
-                  type: "number",
-                  description: "New height in grid units",
-                },
-                parameter_mappings: {
-                  type: "array",
-                  description:
-                    "Parameter mappings to connect dashboard filters to card template tags",
-                  items: {
-                    type: "object",
-                  },
-                },
-              },
-              required: ["dashboard_id", "dashcard_id"],
-            },
+              "List a collection's contents in a named Metabase instance",
           },
         ],
       };
     });
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      this.logInfo("Calling tool...", {
-        toolName: request.params?.name,
-        arguments: request.params?.arguments,
-        fullRequest: JSON.stringify(request),
+    // 读取资源
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+      logInfo("Reading resource...", {
+        requestStructure: JSON.stringify(request),
       });
-      if (!METABASE_API_KEY) {
-        await this.getSessionToken();
+      const uri = request.params?.uri;
+      const { instance, path } = parseResourceUri(connections, uri);
+      let match;
+
+      // 导出文件在本地导出目录中，不需要访问 Metabase
+      if ((match = path.match(/^export\/([^/]+)$/))) {
+        const file = await readExportResource(
+          settings.exportDir,
+          decodeURIComponent(match[1]),
+        );
+        return { contents: [{ uri, ...file }] };
       }
 
-      try {
-        switch (request.params?.name) {
-          case "list_dashboards": {
-            const response = await this.axiosInstance.get("/api/dashboard");
-            // Filter to only essential fields to reduce token usage
-            const filteredData = response.data.map((dashboard: any) => ({
-              id: dashboard.id,
-              name: dashboard.name,
-              description: dashboard.description,
-              collection_id: dashboard.collection_id,
-              archived: dashboard.archived,
-            }));
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "list_cards": {
-            const f = request.params?.arguments?.f || "all";
-            const response = await this.axiosInstance.get(`/api/card?f=${f}`);
-            // Filter to only essential fields to reduce token usage
-            const filteredData = response.data.map((card: any) => ({
-              id: card.id,
-              name: card.name,
-              description: card.description,
-              display: card.display,
-              collection_id: card.collection_id,
-              database_id: card.database_id,
-              archived: card.archived,
-            }));
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+      const instanceName = instance ?? connections.defaultInstance;
+      const client = connections.get(instance);
+      await client.ensureAuthenticated();
 
-          case "list_databases": {
-            const response = await this.axiosInstance.get("/api/database");
-            // Filter to only essential fields to reduce token usage
-            const filteredData = response.data.map((database: any) => ({
-              id: database.id,
-              name: database.name,
-              engine: database.engine,
-            }));
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "list_collections": {
-            const response = await this.axiosInstance.get("/api/collection");
-            // Filter to only essential fields to reduce token usage
-            const filteredData = response.data.map((collection: any) => ({
-              id: collection.id,
-              name: collection.name,
-              description: collection.description,
-              archived: collection.archived,
-            }));
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "get_database": {
-            const databaseId = request.params?.arguments?.database_id;
-            if (!databaseId) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Database ID is required",
-              );
-            }
-
-            const response = await this.axiosInstance.get(
-              `/api/database/${databaseId}`,
-            );
-            // Filter to only essential fields to reduce token usage
-            const filteredData = {
-              id: response.data.id,
-              name: response.data.name,
-              engine: response.data.engine,
-              tables: response.data.tables?.map((table: any) => ({
-                id: table.id,
-                name: table.name,
-              })),
-            };
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "get_database_metadata": {
-            const databaseId = request.params?.arguments?.database_id;
-            if (!databaseId) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Database ID is required",
-              );
-            }
-
-            const response = await this.axiosInstance.get(
-              `/api/database/${databaseId}/metadata`,
-            );
+      try {
+        // 处理仪表板资源
+        if ((match = path.match(/^dashboard\/(\d+)$/))) {
+          const dashboardId = match[1];
+          const response = await client.axiosInstance.get(
+            `/api/dashboard/${dashboardId}`,
+          );
 
-            // Filter to only include table names/IDs and field names/IDs
-            const filteredData = {
-              id: response.data.id,
-              name: response.data.name,
-              tables:
-                response.data.tables?.map((table: any) => ({
-                  id: table.id,
-                  name: table.name,
-                  fields:
-                    table.fields?.map((field: any) => ({
-                      id: field.id,
-                      name: field.name,
-                      database_type: field.database_type,
-                    })) || [],
-                })) || [],
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+          return {
+            contents: [
+              {
+                uri: request.params?.uri,
+                mimeType: "application/json",
+                text: JSON.stringify(response.data, null, 2),
+              },
+            ],
+          };
+        }
 
-          case "execute_card": {
-            const cardId = request.params?.arguments?.card_id;
-            if (!cardId) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Card ID is required",
-              );
-            }
-
-            const parameters = request.params?.arguments?.parameters || {};
-            const response = await this.axiosInstance.post(
-              `/api/card/${cardId}/query`,
-              { parameters },
-            );
+        // 处理问题/卡片资源
+        else if ((match = path.match(/^card\/(\d+)$/))) {
+          const cardId = match[1];
+          const response = await client.axiosInstance.get(
+            `/api/card/${cardId}`,
+          );
 
-            // Filter to only essential fields to reduce token usage
-            const filteredData = {
-              data: response.data.data || {},
-              row_count: response.data.row_count,
-              status: response.data.status,
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+          return {
+            contents: [
+              {
+                uri: request.params?.uri,
+                mimeType: "application/json",
+                text: JSON.stringify(response.data, null, 2),
+              },
+            ],
+          };
+        }
 
-          case "get_dashboard_cards": {
-            const dashboardId = request.params?.arguments?.dashboard_id;
-            if (!dashboardId) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashboard ID is required",
-              );
-            }
-
-            const response = await this.axiosInstance.get(
-              `/api/dashboard/${dashboardId}`,
-            );
+        // 处理数据库资源
+        else if ((match = path.match(/^database\/(\d+)$/))) {
+          const databaseId = match[1];
+          const response = await client.axiosInstance.get(
+            `/api/database/${databaseId}`,
+          );
 
-            // Return dashcards (which is the correct field name in Metabase API)
-            const dashcards =
-              response.data.dashcards || response.data.cards || [];
-
-            // Filter to only essential fields to reduce token usage
-            const filteredDashcards = dashcards.map((dc: any) => ({
-              id: dc.id,
-              card_id: dc.card_id,
-              row: dc.row,
-              col: dc.col,
-              size_x: dc.size_x,
-              size_y: dc.size_y,
-              card: dc.card
-                ? {
-                    id: dc.card.id,
-                    name: dc.card.name,
-                    display: dc.card.display,
-                  }
-                : undefined,
-              parameter_mappings: dc.parameter_mappings || [],
-            }));
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredDashcards, null, 2),
-                },
-              ],
-            };
-          }
+          return {
+            contents: [
+              {
+                uri: request.params?.uri,
+                mimeType: "application/json",
+                text: JSON.stringify(response.data, null, 2),
+              },
+            ],
+          };
+        }
 
-          case "get_dashboard": {
-            const dashboardId = request.params?.arguments?.dashboard_id;
-            if (!dashboardId) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashboard ID is required",
-              );
-            }
-
-            const response = await this.axiosInstance.get(
-              `/api/dashboard/${dashboardId}`,
-            );
+        // 处理表资源
+        else if ((match = path.match(/^table\/(\d+)$/))) {
+          const table = await readTableResource(
+            client.axiosInstance,
+            Number(match[1]),
+          );
 
-            // Return full dashboard details including tabs
-            const filteredData = {
-              id: response.data.id,
-              name: response.data.name,
-              description: response.data.description,
-              tabs: response.data.tabs || [],
-              parameters: response.data.parameters || [],
-              dashcards_count: (response.data.dashcards || []).length,
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+          return {
+            contents: [
+              {
+                uri: request.params?.uri,
+                mimeType: "application/json",
+                text: JSON.stringify(table, null, 2),
+              },
+            ],
+          };
+        }
 
-          case "execute_query": {
-            const databaseId = request.params?.arguments?.database_id;
-            const query = request.params?.arguments?.query;
-            const collectionParam = request.params?.arguments?.collection;
-            const nativeParameters =
-              request.params?.arguments?.native_parameters || [];
-
-            if (!databaseId) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Database ID is required",
-              );
-            }
-
-            if (!query) {
-              throw new McpError(ErrorCode.InvalidParams, "Query is required");
-            }
-
-            // Get database details to check engine type
-            const dbResponse = await this.axiosInstance.get(
-              `/api/database/${databaseId}`,
-            );
-            const dbEngine = dbResponse.data.engine;
-
-            let queryData;
-
-            if (dbEngine === "mongo") {
-              // MongoDB query format
-              if (!collectionParam) {
-                throw new McpError(
-                  ErrorCode.InvalidParams,
-                  "Collection name is required for MongoDB queries",
-                );
-              }
-
-              const queryStr = String(query);
-
-              queryData = {
-                type: "native",
-                native: {
-                  collection: collectionParam,
-                  query: queryStr,
-                  template_tags: {},
-                },
-                parameters: nativeParameters,
-                database: databaseId,
-              };
-            } else {
-              // SQL query format
-              queryData = {
-                type: "native",
-                native: {
-                  query: query,
-                  template_tags: {},
-                },
-                parameters: nativeParameters,
-                database: databaseId,
-              };
-            }
-
-            const response = await this.axiosInstance.post(
-              "/api/dataset",
-              queryData,
-            );
+        // 处理字段资源
+        else if ((match = path.match(/^field\/(\d+)$/))) {
+          const field = await readFieldResource(
+            client.axiosInstance,
+            Number(match[1]),
+          );
 
-            // Filter to only essential fields to reduce token usage
-            const filteredData = {
-              data: response.data.data || {},
-              row_count: response.data.row_count,
-              status: response.data.status,
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+          return {
+            contents: [
+              {
+                uri: request.params?.uri,
+                mimeType: "application/json",
+                text: JSON.stringify(field, null, 2),
+              },
+            ],
+          };
+        }
 
-          case "create_card": {
-            const {
-              name,
-              dataset_query,
-              display,
-              visualization_settings = {},
-              collection_id,
-              description,
-            } = request.params?.arguments || {};
-
-            if (!name || !dataset_query || !display) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Missing required fields for create_card: name, dataset_query, display",
-              );
-            }
-
-            const createCardBody: any = {
-              name,
-              dataset_query,
-              display,
-              visualization_settings,
-            };
-            if (collection_id !== undefined)
-              createCardBody.collection_id = collection_id;
-            if (description !== undefined)
-              createCardBody.description = description;
-
-            const response = await this.axiosInstance.post(
-              "/api/card",
-              createCardBody,
-            );
+        // 处理集合内容资源
+        else if ((match = path.match(/^collection\/(\d+|root)\/items$/))) {
+          const items = await readCollectionItemsResource(
+            client.axiosInstance,
+            match[1] === "root" ? "root" : Number(match[1]),
+            (itemPath) => buildResourceUri(connections, instanceName, itemPath),
+          );
 
-            // Add a user-friendly link to view the card
-            const cardId = response.data.id;
-            const cardLink = `${METABASE_URL}/question/${cardId}`;
-            const resultWithLink = {
-              id: response.data.id,
-              name: response.data.name,
-              display: response.data.display,
-              collection_id: response.data.collection_id,
-              _link: cardLink,
-              _message: `Card created successfully! View it at: ${cardLink}`,
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(resultWithLink, null, 2),
-                },
-              ],
-            };
-          }
+          return {
+            contents: [
+              {
+                uri: request.params?.uri,
+                mimeType: "application/json",
+                text: JSON.stringify(items, null, 2),
+              },
+            ],
+          };
+        } else {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Invalid URI format: ${uri}`,
+          );
+        }
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Metabase API error: ${error.response?.data?.message || error.message}`,
+          );
+        }
+        throw error;
+      }
+    });
 
-          case "update_card": {
-            const { card_id, ...updateFields } =
-              request.params?.arguments || {};
-            if (!card_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Card ID is required for update_card",
-              );
-            }
-            if (Object.keys(updateFields).length === 0) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "No fields provided for update_card",
-              );
-            }
-            const response = await this.axiosInstance.put(
-              `/api/card/${card_id}`,
-              updateFields,
+    // 资源订阅：轮询仪表板和卡片的 updated_at，变化时通知客户端
+    if (METABASE_POLL_INTERVAL > 0) {
+      const subscriptions = new ResourceSubscriptions(
+        async (uri) => {
+          const { instance, path } = parseResourceUri(connections, uri);
+          const match = path.match(/^(dashboard|card)\/(\d+)$/);
+          if (!match) {
+            throw new McpError(
+              ErrorCode.InvalidParams,
+              `Only dashboard and card resources can be subscribed to: ${uri}`,
             );
-            // Filter to only essential fields to reduce token usage
-            const filteredData = {
-              id: response.data.id,
-              name: response.data.name,
-              display: response.data.display,
-              collection_id: response.data.collection_id,
-              archived: response.data.archived,
-            };
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
-
-          case "delete_card": {
-            const { card_id, hard_delete = false } =
-              request.params?.arguments || {};
-            if (!card_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Card ID is required for delete_card",
-              );
-            }
-
-            if (hard_delete) {
-              await this.axiosInstance.delete(`/api/card/${card_id}`);
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: `Card ${card_id} permanently deleted.`,
-                  },
-                ],
-              };
-            } else {
-              // Soft delete (archive)
-              const response = await this.axiosInstance.put(
-                `/api/card/${card_id}`,
-                { archived: true },
-              );
-              return {
-                content: [
-                  {
-                    type: "text",
-                    // Metabase might return the updated card object or just a success status.
-                    // If response.data is available and meaningful, include it. Otherwise, a generic success message.
-                    text: response.data
-                      ? `Card ${card_id} archived. Details: ${JSON.stringify(response.data, null, 2)}`
-                      : `Card ${card_id} archived.`,
-                  },
-                ],
-              };
-            }
           }
+          const client = connections.get(instance);
+          await client.ensureAuthenticated();
+          const { data } = await client.axiosInstance.get(
+            `/api/${match[1]}/${match[2]}`,
+          );
+          return data.updated_at ?? null;
+        },
+        (uri) => server.sendResourceUpdated({ uri }),
+        {
+          interval: METABASE_POLL_INTERVAL * 1000,
+          maxInterval: METABASE_POLL_MAX_INTERVAL * 1000,
+        },
+      );
+      server.onclose = () => subscriptions.close();
 
-          case "create_dashboard": {
-            const { name, description, parameters, collection_id } =
-              request.params?.arguments || {};
-            if (!name) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Missing required field for create_dashboard: name",
-              );
-            }
-            const createDashboardBody: any = { name };
-            if (description !== undefined)
-              createDashboardBody.description = description;
-            if (parameters !== undefined)
-              createDashboardBody.parameters = parameters;
-            if (collection_id !== undefined)
-              createDashboardBody.collection_id = collection_id;
-
-            const response = await this.axiosInstance.post(
-              "/api/dashboard",
-              createDashboardBody,
+      server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        try {
+          await subscriptions.subscribe(request.params.uri);
+        } catch (error) {
+          if (axios.isAxiosError(error)) {
+            throw new McpError(
+              ErrorCode.InternalError,
+              `Metabase API error: ${error.response?.data?.message || error.message}`,
             );
-
-            // Add a user-friendly link to view the dashboard
-            const dashboardId = response.data.id;
-            const dashboardLink = `${METABASE_URL}/dashboard/${dashboardId}`;
-            const resultWithLink = {
-              id: response.data.id,
-              name: response.data.name,
-              description: response.data.description,
-              collection_id: response.data.collection_id,
-              _link: dashboardLink,
-              _message: `Dashboard created successfully! View it at: ${dashboardLink}`,
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(resultWithLink, null, 2),
-                },
-              ],
-            };
           }
+          throw error;
+        }
+        return {};
+      });
 
-          case "update_dashboard": {
-            const { dashboard_id, ...updateFields } =
-              request.params?.arguments || {};
-            if (!dashboard_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashboard ID is required for update_dashboard",
-              );
-            }
-            if (Object.keys(updateFields).length === 0) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "No fields provided for update_dashboard",
-              );
-            }
-            const response = await this.axiosInstance.put(
-              `/api/dashboard/${dashboard_id}`,
-              updateFields,
-            );
-            // Filter to only essential fields to reduce token usage
-            const filteredData = {
-              id: response.data.id,
-              name: response.data.name,
-              description: response.data.description,
-              collection_id: response.data.collection_id,
-              archived: response.data.archived,
-            };
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+      server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        subscriptions.unsubscribe(request.params.uri);
+        return {};
+      });
+    }
+  }
 
-          case "delete_dashboard": {
-            const { dashboard_id, hard_delete = false } =
-              request.params?.arguments || {};
-            if (!dashboard_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashboard ID is required for delete_dashboard",
-              );
-            }
-
-            if (hard_delete) {
-              await this.axiosInstance.delete(`/api/dashboard/${dashboard_id}`);
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: `Dashboard ${dashboard_id} permanently deleted.`,
-                  },
-                ],
-              };
-            } else {
-              // Soft delete (archive)
-              const response = await this.axiosInstance.put(
-                `/api/dashboard/${dashboard_id}`,
-                { archived: true },
-              );
-              return {
-                content: [
-                  {
-                    type: "text",
-                    text: response.data
-                      ? `Dashboard ${dashboard_id} archived. Details: ${JSON.stringify(response.data, null, 2)}`
-                      : `Dashboard ${dashboard_id} archived.`,
-                  },
-                ],
-              };
-            }
-          }
+  /**
+   * 提示模板：生成提示时读取相关内容并作为资源嵌入
+   */
+  private setupPromptHandlers(
+    server: Server,
+    connections: MetabaseConnections,
+  ) {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => {
+      return {
+        prompts: PROMPTS.map((prompt) => describePrompt(prompt, connections)),
+      };
+    });
 
-          case "add_card_to_dashboard": {
-            const {
-              dashboard_id,
-              card_id,
-              row = 0,
-              col = 0,
-              size_x = 4,
-              size_y = 4,
-              dashboard_tab_id,
-            } = request.params?.arguments || {};
-
-            if (!dashboard_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashboard ID is required for add_card_to_dashboard",
-              );
-            }
-
-            if (!card_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Card ID is required for add_card_to_dashboard",
-              );
-            }
-
-            // First, get existing dashboard to retrieve current cards and tabs
-            const dashboardResponse = await this.axiosInstance.get(
-              `/api/dashboard/${dashboard_id}`,
-            );
+    server.setRequestHandler(GetPromptRequestSchema, async (request) => {
+      logInfo("Getting prompt...", {
+        promptName: request.params?.name,
+        arguments: request.params?.arguments,
+      });
+      const { instance, ...args } = request.params?.arguments || {};
+      const instanceName = instance || connections.defaultInstance;
+      const client = connections.get(instance);
+      await client.ensureAuthenticated();
 
-            // Extract existing cards (dashcards) and tabs
-            const existingCards = dashboardResponse.data.dashcards || [];
-            const existingTabs = dashboardResponse.data.tabs || [];
-
-            // Map existing cards to the format needed for PUT
-            const existingCardsFormatted = existingCards.map((dc: any) => ({
-              id: dc.id,
-              card_id: dc.card_id,
-              row: dc.row,
-              col: dc.col,
-              size_x: dc.size_x,
-              size_y: dc.size_y,
-              series: dc.series || [],
-              visualization_settings: dc.visualization_settings || {},
-              parameter_mappings: dc.parameter_mappings || [],
-              dashboard_tab_id: dc.dashboard_tab_id || null,
-            }));
-
-            // Add the new card with id=-1
-            const newCard: any = {
-              id: -1,
-              card_id: card_id,
-              row: row,
-              col: col,
-              size_x: size_x,
-              size_y: size_y,
-            };
-
-            // Add dashboard_tab_id if provided
-            if (dashboard_tab_id !== undefined) {
-              newCard.dashboard_tab_id = dashboard_tab_id;
-            }
-
-            const allCards = [...existingCardsFormatted, newCard];
-
-            // Metabase API requires PUT with all cards AND tabs if tabs exist
-            const updateBody: any = {
-              cards: allCards,
-            };
-
-            // Include tabs if they exist
-            if (existingTabs.length > 0) {
-              updateBody.tabs = existingTabs;
-            }
-
-            const response = await this.axiosInstance.put(
-              `/api/dashboard/${dashboard_id}/cards`,
-              updateBody,
-            );
+      try {
+        return await getPrompt(request.params?.name, args, {
+          api: client.axiosInstance,
+          uri: (path) => buildResourceUri(connections, instanceName, path),
+          readOnly: METABASE_READ_ONLY,
+        });
+      } catch (error) {
+        if (axios.isAxiosError(error)) {
+          throw new McpError(
+            ErrorCode.InternalError,
+            `Metabase API error: ${error.response?.data?.message || error.message}`,
+          );
+        }
+        throw error;
+      }
+    });
+  }
 
-            // Filter to only essential fields to reduce token usage
-            const filteredData = {
-              cards: response.data.cards?.map((dc: any) => ({
-                id: dc.id,
-                card_id: dc.card_id,
-                row: dc.row,
-                col: dc.col,
-                size_x: dc.size_x,
-                size_y: dc.size_y,
-                dashboard_tab_id: dc.dashboard_tab_id,
-              })),
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+  /**
+   * 设置工具处理程序
+   */
+  private setupToolHandlers(
+    server: Server,
+    connections: MetabaseConnections,
+    settings: ToolSettings,
+    pager: ResultPager,
+  ) {
+    // No session token needed for listing tools, as it's static data
+    server.setRequestHandler(ListToolsRequestSchema, async () => {
+      return {
+        tools: this.tools
+          .list()
+          .filter(
+            (tool) => !METABASE_READ_ONLY || isAvailableInReadOnlyMode(tool),
+          )
+          .map((tool) => describeTool(tool, connections)),
+      };
+    });
 
-          case "remove_card_from_dashboard": {
-            const { dashboard_id, dashcard_id } =
-              request.params?.arguments || {};
-
-            if (!dashboard_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashboard ID is required for remove_card_from_dashboard",
-              );
-            }
-
-            if (!dashcard_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashcard ID is required for remove_card_from_dashboard",
-              );
-            }
-
-            await this.axiosInstance.delete(
-              `/api/dashboard/${dashboard_id}/cards/${dashcard_id}`,
-            );
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
+      logInfo("Calling tool...", {
+        toolName: request.params?.name,
+        arguments: request.params?.arguments,
+        fullRequest: JSON.stringify(request),
+      });
+      const { instance, ...rawArgs }: Record<string, any> =
+        request.params?.arguments || {};
 
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Card ${dashcard_id} removed from dashboard ${dashboard_id}.`,
-                },
-              ],
-            };
-          }
+      const tool = this.tools.get(request.params?.name);
+      if (!tool) {
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Unknown tool: ${request.params?.name}`,
+            },
+          ],
+          isError: true,
+        };
+      }
 
-          case "update_dashboard_card": {
-            const {
-              dashboard_id,
-              dashcard_id,
-              parameter_mappings,
-              ...updateFields
-            } = request.params?.arguments || {};
-
-            if (!dashboard_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashboard ID is required for update_dashboard_card",
-              );
-            }
-
-            if (!dashcard_id) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "Dashcard ID is required for update_dashboard_card",
-              );
-            }
-
-            if (
-              Object.keys(updateFields).length === 0 &&
-              parameter_mappings === undefined
-            ) {
-              throw new McpError(
-                ErrorCode.InvalidParams,
-                "No fields provided for update_dashboard_card",
-              );
-            }
-
-            // First, get existing dashboard to retrieve current cards and tabs
-            const dashboardResponse = await this.axiosInstance.get(
-              `/api/dashboard/${dashboard_id}`,
-            );
+      if (METABASE_READ_ONLY && !isAvailableInReadOnlyMode(tool)) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          `Tool "${tool.name}" modifies Metabase content and is disabled because the server is running in read-only mode (METABASE_READ_ONLY=true)`,
+        );
+      }
 
-            // Extract existing cards (dashcards) and tabs
-            const existingCards = dashboardResponse.data.dashcards || [];
-            const existingTabs = dashboardResponse.data.tabs || [];
-
-            // Find and update the specific card
-            const updatedCards = existingCards.map((dc: any) => {
-              if (dc.id === dashcard_id) {
-                // Update this card with new fields
-                return {
-                  id: dc.id,
-                  card_id: dc.card_id,
-                  row:
-                    updateFields.row !== undefined ? updateFields.row : dc.row,
-                  col:
-                    updateFields.col !== undefined ? updateFields.col : dc.col,
-                  size_x:
-                    updateFields.size_x !== undefined
-                      ? updateFields.size_x
-                      : dc.size_x,
-                  size_y:
-                    updateFields.size_y !== undefined
-                      ? updateFields.size_y
-                      : dc.size_y,
-                  series: dc.series || [],
-                  visualization_settings: dc.visualization_settings || {},
-                  parameter_mappings:
-                    parameter_mappings !== undefined
-                      ? parameter_mappings
-                      : dc.parameter_mappings || [],
-                  dashboard_tab_id: dc.dashboard_tab_id || null,
-                };
-              }
-              // Keep other cards as-is
-              return {
-                id: dc.id,
-                card_id: dc.card_id,
-                row: dc.row,
-                col: dc.col,
-                size_x: dc.size_x,
-                size_y: dc.size_y,
-                series: dc.series || [],
-                visualization_settings: dc.visualization_settings || {},
-                parameter_mappings: dc.parameter_mappings || [],
-                dashboard_tab_id: dc.dashboard_tab_id || null,
-              };
-            });
-
-            // PUT all cards back with tabs if they exist
-            const updateBody: any = {
-              cards: updatedCards,
-            };
-
-            // Include tabs if they exist
-            if (existingTabs.length > 0) {
-              updateBody.tabs = existingTabs;
-            }
-
-            const response = await this.axiosInstance.put(
-              `/api/dashboard/${dashboard_id}/cards`,
-              updateBody,
-            );
+      // Arguments are checked against the tool's schema before dispatch;
+      // tools without the instance argument reject it as unknown
+      const args = parseToolArguments(
+        tool,
+        tool.instanceArgument === false
+          ? request.params?.arguments || {}
+          : rawArgs,
+      );
 
-            // Filter to only essential fields to reduce token usage
-            const filteredData = {
-              cards: response.data.cards?.map((dc: any) => ({
-                id: dc.id,
-                card_id: dc.card_id,
-                row: dc.row,
-                col: dc.col,
-                size_x: dc.size_x,
-                size_y: dc.size_y,
-                parameter_mappings: dc.parameter_mappings || [],
-              })),
-            };
-
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: JSON.stringify(filteredData, null, 2),
-                },
-              ],
-            };
-          }
+      const context: ToolContext = {
+        connections,
+        pager,
+        settings,
+        get client() {
+          return connections.get(instance);
+        },
+      };
+      if (tool.instanceArgument !== false) {
+        await context.client.ensureAuthenticated();
+      }
 
-          default:
-            return {
-              content: [
-                {
-                  type: "text",
-                  text: `Unknown tool: ${request.params?.name}`,
-                },
-              ],
-              isError: true,
-            };
-        }
+      try {
+        return await tool.handler(args, context);
       } catch (error) {
         if (axios.isAxiosError(error)) {
           return {
@@ -1694,15 +876,63 @@ class MetabaseServer {
 
   async run() {
     try {
-      this.logInfo("Starting Metabase MCP server...");
-      const transport = new StdioServerTransport();
-      await this.server.connect(transport);
-      this.logInfo("Metabase MCP server running on stdio");
+      logInfo("Starting Metabase MCP server...");
+      const plugins = await loadToolPlugins(this.tools, {
+        dir: METABASE_TOOL_DIR,
+        packages: METABASE_TOOL_PACKAGES,
+      });
+      if (plugins.length > 0) {
+        logInfo(`Loaded custom tools: ${plugins.join(", ")}`);
+      }
+      if (MCP_TRANSPORT === "http") {
+        await this.runHttp();
+      } else {
+        await this.runStdio();
+      }
     } catch (error) {
-      this.logError("Failed to start server", error);
+      logError("Failed to start server", error);
       throw error;
     }
   }
+
+  private async runStdio() {
+    const server = this.createServer(
+      this.createSharedConnections(),
+      TOOL_SETTINGS,
+    );
+    const transport = new StdioServerTransport();
+    await server.connect(transport);
+    logInfo("Metabase MCP server running on stdio");
+
+    process.on("SIGINT", async () => {
+      logInfo("Shutting down server...");
+      await server.close();
+      process.exit(0);
+    });
+  }
+
+  private async runHttp() {
+    const httpServer = await startHttpServer({
+      host: MCP_HTTP_HOST,
+      port: MCP_HTTP_PORT,
+      path: "/mcp",
+      authTokens: MCP_AUTH_TOKENS,
+      createServer: (req) => this.createSessionServer(req),
+      logInfo,
+      logError,
+    });
+    logInfo(
+      `Metabase MCP server running on http://${MCP_HTTP_HOST}:${MCP_HTTP_PORT}/mcp`,
+    );
+
+    const shutdown = async () => {
+      logInfo("Shutting down server...");
+      await httpServer.close();
+      process.exit(0);
+    };
+    process.on("SIGINT", shutdown);
+    process.on("SIGTERM", shutdown);
+  }
 }
 
 // Add global error handlers
@@ -0,0 +1,252 @@
+/**
+ * Metabase 实例配置
+ * 支持在一个服务器中配置多个命名的 Metabase 连接（例如 staging 与 prod），
+ * 每个连接有自己的 URL 和认证方式。
+ */
+
+import { readFileSync } from "node:fs";
+import { ErrorCode, McpError } from "./errors.js";
+import { MetabaseClient, MetabaseCredentials } from "./metabaseClient.js";
+
+// 未使用配置文件时，由 METABASE_URL 等环境变量定义的实例名称
+export const DEFAULT_INSTANCE_NAME = "default";
+
+const INSTANCE_NAME_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+// 资源 URI 的第一段（metabase://{instance}/card/1 与 metabase://card/1 要能区分开）
+const RESERVED_INSTANCE_NAMES = new Set([
+  "card",
+  "collection",
+  "dashboard",
+  "database",
+  "export",
+  "field",
+  "table",
+]);
+
+export interface InstanceConfig {
+  name: string;
+  url: string;
+  // 未配置凭据时，只能由 HTTP 会话提供
+  credentials: MetabaseCredentials | null;
+}
+
+export interface InstancesConfig {
+  defaultInstance: string;
+  instances: InstanceConfig[];
+}
+
+function toCredentials(raw: {
+  apiKey?: string;
+  username?: string;
+  password?: string;
+}): MetabaseCredentials | null {
+  if (raw.apiKey) {
+    return { apiKey: raw.apiKey };
+  }
+  if (raw.username && raw.password) {
+    return { username: raw.username, password: raw.password };
+  }
+  return null;
+}
+
+/**
+ * 读取实例配置：优先使用 METABASE_CONFIG 指向的 JSON 文件，
+ * 否则由 METABASE_URL / METABASE_API_KEY / METABASE_USERNAME / METABASE_PASSWORD 定义单个实例
+ */
+export function loadInstancesConfig(
+  env: NodeJS.ProcessEnv = process.env,
+): InstancesConfig {
+  if (!env.METABASE_CONFIG) {
+    if (!env.METABASE_URL) {
+      throw new Error(
+        "METABASE_URL (or METABASE_CONFIG) environment variable is required",
+      );
+    }
+    return {
+      defaultInstance: DEFAULT_INSTANCE_NAME,
+      instances: [
+        {
+          name: DEFAULT_INSTANCE_NAME,
+          url: env.METABASE_URL,
+          credentials: toCredentials({
+            apiKey: env.METABASE_API_KEY,
+            username: env.METABASE_USERNAME,
+            password: env.METABASE_PASSWORD,
+          }),
+        },
+      ],
+    };
+  }
+
+  let raw: any;
+  try {
+    raw = JSON.parse(readFileSync(env.METABASE_CONFIG, "utf8"));
+  } catch (error) {
+    throw new Error(
+      `Failed to read METABASE_CONFIG file ${env.METABASE_CONFIG}: ${(error as Error).message}`,
+    );
+  }
+
+  const entries = Object.entries(raw?.instances || {}) as [string, any][];
+  if (entries.length === 0) {
+    throw new Error(
+      `METABASE_CONFIG file ${env.METABASE_CONFIG} must define at least one entry in "instances"`,
+    );
+  }
+
+  const seen = new Set<string>();
+  const instances = entries.map(([name, instance]) => {
+    if (!INSTANCE_NAME_PATTERN.test(name)) {
+      throw new Error(
+        `Invalid Metabase instance name "${name}": use letters, digits, "_" or "-"`,
+      );
+    }
+    if (RESERVED_INSTANCE_NAMES.has(name.toLowerCase())) {
+      throw new Error(
+        `Invalid Metabase instance name "${name}": it is reserved for resource URIs (${[...RESERVED_INSTANCE_NAMES].join(", ")})`,
+      );
+    }
+    if (seen.has(name.toLowerCase())) {
+      throw new Error(`Duplicate Metabase instance name "${name}"`);
+    }
+    seen.add(name.toLowerCase());
+    if (!instance?.url) {
+      throw new Error(`Metabase instance "${name}" is missing "url"`);
+    }
+    return {
+      name,
+      url: String(instance.url),
+      credentials: toCredentials(instance),
+    };
+  });
+
+  const defaultInstance = raw.default || instances[0].name;
+  if (!instances.some((instance) => instance.name === defaultInstance)) {
+    throw new Error(
+      `Default Metabase instance "${defaultInstance}" is not defined in "instances"`,
+    );
+  }
+
+  return { defaultInstance, instances };
+}
+
+interface Connection {
+  config: InstanceConfig;
+  client: MetabaseClient | null;
+  // 会话自有的客户端在会话关闭时注销
+  owned: boolean;
+}
+
+/**
+ * 一个 MCP 会话可用的 Metabase 连接集合
+ */
+export class MetabaseConnections {
+  readonly defaultInstance: string;
+  private connections = new Map<string, Connection>();
+
+  constructor(defaultInstance: string) {
+    this.defaultInstance = defaultInstance;
+  }
+
+  add(config: InstanceConfig, client: MetabaseClient | null, owned = false) {
+    this.connections.set(config.name, { config, client, owned });
+  }
+
+  get names(): string[] {
+    return [...this.connections.keys()];
+  }
+
+  /**
+   * 是否配置了多个实例（此时资源 URI 会带上实例名称）
+   */
+  get isMultiInstance(): boolean {
+    return this.connections.size > 1;
+  }
+
+  /**
+   * 按名称获取已认证的客户端，省略名称时使用默认实例
+   */
+  get(name?: string): MetabaseClient {
+    const instanceName = name || this.defaultInstance;
+    const connection = this.connections.get(instanceName);
+    if (!connection) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown Metabase instance "${instanceName}". Configured instances: ${this.names.join(", ")}`,
+      );
+    }
+    if (!connection.client) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `No Metabase credentials available for instance "${instanceName}" in this session`,
+      );
+    }
+    return connection.client;
+  }
+
+  /**
+   * 列出所有实例并检查认证是否成功
+   */
+  async describe(): Promise<
+    {
+      name: string;
+      url: string;
+      default: boolean;
+      authenticated: boolean;
+      user?: string;
+      error?: string;
+    }[]
+  > {
+    return Promise.all(
+      [...this.connections.values()].map(async ({ config, client }) => {
+        const base = {
+          name: config.name,
+          url: config.url,
+          default: config.name === this.defaultInstance,
+        };
+        if (!client) {
+          return {
+            ...base,
+            authenticated: false,
+            error: "No credentials available in this session",
+          };
+        }
+        try {
+          await client.ensureAuthenticated();
+          const response = await client.axiosInstance.get("/api/user/current");
+          return {
+            ...base,
+            authenticated: true,
+            user: response.data.email || response.data.common_name,
+          };
+        } catch (error) {
+          const apiError = error as {
+            response?: { data?: { message?: string } | string };
+            message?: string;
+          };
+          const data = apiError.response?.data;
+          return {
+            ...base,
+            authenticated: false,
+            error:
+              (typeof data === "object" ? data?.message : data) ||
+              apiError.message ||
+              "Unknown error",
+          };
+        }
+      }),
+    );
+  }
+
+  /**
+   * 关闭会话自有的客户端
+   */
+  async close(): Promise<void> {
+    await Promise.all(
+      [...this.connections.values()]
+        .filter((connection) => connection.owned && connection.client)
+        .map((connection) => connection.client?.close()),
+    );
+  }
+}
@@ -0,0 +1,36 @@
+// 日志工具：MCP 通过 stdio 通信，所有日志都写到 stderr
+export function logInfo(message: string, data?: unknown) {
+  const logMessage = {
+    timestamp: new Date().toISOString(),
+    level: "info",
+    message,
+    data,
+  };
+  console.error(JSON.stringify(logMessage));
+  // MCP SDK changed, can't directly access session
+  try {
+    // Use current session if available
+    console.error(`INFO: ${message}`);
+  } catch (e) {
+    // Ignore if session not available
+  }
+}
+
+export function logError(message: string, error: unknown) {
+  const errorObj = error as Error;
+
+  const logMessage = {
+    timestamp: new Date().toISOString(),
+    level: "error",
+    message,
+    error: errorObj.message || "Unknown error",
+    stack: errorObj.stack,
+  };
+  console.error(JSON.stringify(logMessage));
+  // MCP SDK changed, can't directly access session
+  try {
+    console.error(`ERROR: ${message} - ${errorObj.message || "Unknown error"}`);
+  } catch (e) {
+    // Ignore if session not available
+  }
+}
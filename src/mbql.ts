@@ -0,0 +1,338 @@
+/**
+ * 结构化查询
+ * 将紧凑的 JSON 查询描述（源表、筛选、聚合、分组、排序、行数限制、连接）
+ * 按数据库元数据把表名和字段名解析为 ID，编译为 MBQL 查询。
+ */
+
+import { AxiosInstance } from "axios";
+import { ErrorCode, McpError } from "./errors.js";
+
+export interface StructuredJoin {
+  table: string | number;
+  // 连接条件：[源表字段, 被连接表字段]
+  on: [string, string];
+  alias?: string;
+  strategy?: "left-join" | "inner-join" | "right-join" | "full-join";
+}
+
+export interface StructuredBreakout {
+  field: string;
+  unit?: string;
+}
+
+export interface StructuredOrderBy {
+  field?: string;
+  // 聚合的下标（从 0 开始）
+  aggregation?: number;
+  direction?: "asc" | "desc";
+}
+
+export interface StructuredQuery {
+  database_id?: number;
+  source_table: string | number;
+  joins?: StructuredJoin[];
+  filters?: any[];
+  aggregations?: (string | any[])[];
+  breakouts?: (string | StructuredBreakout)[];
+  order_by?: (string | StructuredOrderBy)[];
+  limit?: number;
+}
+
+const FILTER_OPERATORS = new Set([
+  "=",
+  "!=",
+  "<",
+  "<=",
+  ">",
+  ">=",
+  "between",
+  "is-null",
+  "not-null",
+  "is-empty",
+  "not-empty",
+  "contains",
+  "does-not-contain",
+  "starts-with",
+  "ends-with",
+  "time-interval",
+]);
+
+// 不需要字段的聚合
+const COUNT_AGGREGATIONS = new Set(["count", "cum-count"]);
+const FIELD_AGGREGATIONS = new Set([
+  "sum",
+  "cum-sum",
+  "avg",
+  "min",
+  "max",
+  "distinct",
+  "stddev",
+  "median",
+]);
+
+export const TEMPORAL_UNITS = [
+  "minute",
+  "hour",
+  "day",
+  "week",
+  "month",
+  "quarter",
+  "year",
+  "minute-of-hour",
+  "hour-of-day",
+  "day-of-week",
+  "day-of-month",
+  "day-of-year",
+  "week-of-year",
+  "month-of-year",
+  "quarter-of-year",
+] as const;
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function sameName(candidate: any, name: string): boolean {
+  const wanted = name.toLowerCase();
+  return (
+    String(candidate.name).toLowerCase() === wanted ||
+    String(candidate.display_name).toLowerCase() === wanted
+  );
+}
+
+/**
+ * 将结构化查询编译为 MBQL dataset_query
+ */
+export async function compileStructuredQuery(
+  api: AxiosInstance,
+  spec: StructuredQuery,
+): Promise<any> {
+  if (!spec || spec.source_table === undefined) {
+    throw invalid("source_table is required");
+  }
+
+  let databaseId = spec.database_id;
+  if (databaseId === undefined) {
+    if (typeof spec.source_table !== "number") {
+      throw invalid("database_id is required when source_table is a name");
+    }
+    const { data: table } = await api.get(`/api/table/${spec.source_table}`);
+    databaseId = table.db_id as number;
+  }
+
+  const { data: metadata } = await api.get(
+    `/api/database/${databaseId}/metadata`,
+  );
+  const tables: any[] = metadata.tables || [];
+
+  const findTable = (ref: string | number) => {
+    const table =
+      typeof ref === "number"
+        ? tables.find((candidate) => candidate.id === ref)
+        : tables.find(
+            (candidate) =>
+              sameName(candidate, ref) ||
+              `${candidate.schema}.${candidate.name}`.toLowerCase() ===
+                ref.toLowerCase(),
+          );
+    if (!table) {
+      const names = tables
+        .slice(0, 50)
+        .map((candidate) => candidate.name)
+        .join(", ");
+      throw invalid(
+        `Unknown table "${ref}" in database ${databaseId}. Tables: ${names}${tables.length > 50 ? ", ..." : ""}`,
+      );
+    }
+    return table;
+  };
+
+  const source = findTable(spec.source_table);
+
+  // Join aliases → joined table
+  const joins = (spec.joins || []).map((join) => {
+    const table = findTable(join.table);
+    return {
+      ...join,
+      table,
+      alias: join.alias || table.display_name || table.name,
+    };
+  });
+
+  const fieldOn = (
+    table: any,
+    fieldName: string,
+    joinAlias: string | undefined,
+    options: Record<string, any>,
+  ) => {
+    const field = (table.fields || []).find((candidate: any) =>
+      sameName(candidate, fieldName),
+    );
+    if (!field) {
+      throw invalid(
+        `Unknown field "${fieldName}" on table ${table.name}. Fields: ${(table.fields || []).map((f: any) => f.name).join(", ")}`,
+      );
+    }
+    const fieldOptions = { ...options };
+    if (joinAlias) fieldOptions["join-alias"] = joinAlias;
+    return [
+      "field",
+      field.id,
+      Object.keys(fieldOptions).length > 0 ? fieldOptions : null,
+    ];
+  };
+
+  // "total" is a source table field, "People.state" a field of the join aliased People
+  const fieldRef = (name: string, options: Record<string, any> = {}) => {
+    if (typeof name !== "string") {
+      throw invalid(
+        `Field references must be names, got ${JSON.stringify(name)}`,
+      );
+    }
+    const lower = name.toLowerCase();
+    const join = joins.find((candidate) =>
+      [candidate.alias, candidate.table.name].some((prefix) =>
+        lower.startsWith(`${String(prefix).toLowerCase()}.`),
+      ),
+    );
+    if (join) {
+      const prefix = lower.startsWith(`${join.alias.toLowerCase()}.`)
+        ? join.alias
+        : String(join.table.name);
+      return fieldOn(
+        join.table,
+        name.slice(prefix.length + 1),
+        join.alias,
+        options,
+      );
+    }
+    return fieldOn(source, name, undefined, options);
+  };
+
+  const compileFilter = (filter: any): any[] => {
+    if (!Array.isArray(filter) || typeof filter[0] !== "string") {
+      throw invalid(
+        `Filters look like ["=", "status", "shipped"], got ${JSON.stringify(filter)}`,
+      );
+    }
+    const [operator, ...operands] = filter;
+    if (operator === "and" || operator === "or") {
+      return [operator, ...operands.map(compileFilter)];
+    }
+    if (operator === "not") {
+      return ["not", compileFilter(operands[0])];
+    }
+    if (operator === "in") {
+      return ["=", fieldRef(operands[0]), ...operands.slice(1).flat()];
+    }
+    if (!FILTER_OPERATORS.has(operator)) {
+      throw invalid(
+        `Unknown filter operator "${operator}". Expected one of: and, or, not, in, ${[...FILTER_OPERATORS].join(", ")}`,
+      );
+    }
+    return [operator, fieldRef(operands[0]), ...operands.slice(1)];
+  };
+
+  const compileAggregation = (aggregation: string | any[]) => {
+    const [operator, field] =
+      typeof aggregation === "string" ? [aggregation] : aggregation;
+    if (COUNT_AGGREGATIONS.has(operator)) {
+      return field === undefined ? [operator] : [operator, fieldRef(field)];
+    }
+    if (FIELD_AGGREGATIONS.has(operator)) {
+      if (field === undefined) {
+        throw invalid(`Aggregation "${operator}" needs a field`);
+      }
+      return [operator, fieldRef(field)];
+    }
+    throw invalid(
+      `Unknown aggregation "${operator}". Expected one of: ${[...COUNT_AGGREGATIONS, ...FIELD_AGGREGATIONS].join(", ")}`,
+    );
+  };
+
+  const compileBreakout = (breakout: string | StructuredBreakout) => {
+    const { field, unit } =
+      typeof breakout === "string"
+        ? { field: breakout, unit: undefined }
+        : breakout;
+    if (unit === undefined) {
+      return fieldRef(field);
+    }
+    if (!(TEMPORAL_UNITS as readonly string[]).includes(unit)) {
+      throw invalid(
+        `Unknown temporal unit "${unit}". Expected one of: ${TEMPORAL_UNITS.join(", ")}`,
+      );
+    }
+    return fieldRef(field, { "temporal-unit": unit });
+  };
+
+  const aggregations = (spec.aggregations || []).map(compileAggregation);
+  const breakouts = (spec.breakouts || []).map(compileBreakout);
+
+  const compileOrderBy = (order: string | StructuredOrderBy) => {
+    const {
+      field,
+      aggregation,
+      direction = "asc",
+    } = typeof order === "string" ? { field: order } : order;
+    if (direction !== "asc" && direction !== "desc") {
+      throw invalid(`Order direction must be asc or desc, got "${direction}"`);
+    }
+    if (aggregation !== undefined) {
+      if (!Number.isInteger(aggregation) || !aggregations[aggregation]) {
+        throw invalid(`order_by aggregation ${aggregation} does not exist`);
+      }
+      return [direction, ["aggregation", aggregation]];
+    }
+    if (field === undefined) {
+      throw invalid("order_by entries need a field or an aggregation index");
+    }
+    // Ordering by a breakout must use the same (bucketed) reference
+    const ref = fieldRef(field);
+    const breakout = breakouts.find(
+      (candidate) =>
+        candidate[1] === ref[1] &&
+        (candidate[2] as any)?.["join-alias"] ===
+          (ref[2] as any)?.["join-alias"],
+    );
+    return [direction, breakout ?? ref];
+  };
+
+  const query: Record<string, any> = { "source-table": source.id };
+  if (joins.length > 0) {
+    query.joins = joins.map((join) => {
+      if (!Array.isArray(join.on) || join.on.length !== 2) {
+        throw invalid(
+          `Join on ${join.table.name} needs "on": [source field, joined field]`,
+        );
+      }
+      return {
+        alias: join.alias,
+        "source-table": join.table.id,
+        condition: [
+          "=",
+          fieldRef(join.on[0]),
+          fieldOn(join.table, join.on[1], join.alias, {}),
+        ],
+        strategy: join.strategy || "left-join",
+        fields: "all",
+      };
+    });
+  }
+  if (spec.filters?.length) {
+    const filters = spec.filters.map(compileFilter);
+    query.filter = filters.length === 1 ? filters[0] : ["and", ...filters];
+  }
+  if (aggregations.length > 0) query.aggregation = aggregations;
+  if (breakouts.length > 0) query.breakout = breakouts;
+  if (spec.order_by?.length)
+    query["order-by"] = spec.order_by.map(compileOrderBy);
+  if (spec.limit !== undefined) {
+    if (!Number.isInteger(spec.limit) || spec.limit < 1) {
+      throw invalid("limit must be a positive integer");
+    }
+    query.limit = spec.limit;
+  }
+
+  return { database: databaseId, type: "query", query };
+}
@@ -0,0 +1,166 @@
+/**
+ * Metabase API 客户端
+ * 封装一个已认证的 axios 实例，支持 API Key、用户名/密码或现有会话令牌，
+ * 并在会话过期时自动重新登录。
+ */
+
+import axios, { AxiosInstance, InternalAxiosRequestConfig } from "axios";
+import { ErrorCode, McpError } from "./errors.js";
+import { logError, logInfo } from "./logger.js";
+
+export interface MetabaseCredentials {
+  apiKey?: string;
+  username?: string;
+  password?: string;
+  // 调用方已持有的 Metabase 会话令牌
+  sessionToken?: string;
+}
+
+export class MetabaseClient {
+  readonly url: string;
+  readonly axiosInstance: AxiosInstance;
+  private credentials: MetabaseCredentials;
+  private sessionToken: string | null = null;
+  // 正在进行的登录请求，供并发调用方共享
+  private sessionRequest: Promise<string> | null = null;
+  // 是否由本客户端登录创建了会话（关闭时需要注销）
+  private ownsSession = false;
+
+  constructor(url: string, credentials: MetabaseCredentials) {
+    this.url = url;
+    this.credentials = credentials;
+
+    this.axiosInstance = axios.create({
+      baseURL: url,
+      headers: {
+        "Content-Type": "application/json",
+      },
+    });
+
+    if (credentials.apiKey) {
+      logInfo("Using Metabase API Key for authentication.");
+      this.axiosInstance.defaults.headers.common["X-API-Key"] =
+        credentials.apiKey;
+      this.sessionToken = "api_key_used"; // Indicate API key is in use
+    } else if (credentials.sessionToken) {
+      logInfo("Using existing Metabase session for authentication.");
+      this.sessionToken = credentials.sessionToken;
+      this.axiosInstance.defaults.headers.common["X-Metabase-Session"] =
+        credentials.sessionToken;
+    } else if (credentials.username && credentials.password) {
+      logInfo("Using Metabase username/password for authentication.");
+      // Session token is fetched lazily on the first request
+      this.setupSessionRefresh();
+    } else {
+      logError(
+        "Metabase authentication credentials not configured properly.",
+        {},
+      );
+      throw new Error(
+        "Metabase authentication credentials not provided or incomplete.",
+      );
+    }
+  }
+
+  /**
+   * 确保已认证（API Key 或已有会话时无需操作）
+   */
+  async ensureAuthenticated(): Promise<void> {
+    await this.getSessionToken();
+  }
+
+  /**
+   * 注销由本客户端创建的会话
+   */
+  async close(): Promise<void> {
+    if (!this.ownsSession || !this.sessionToken) {
+      return;
+    }
+    try {
+      await this.axiosInstance.delete("/api/session");
+    } catch (error) {
+      logError("Failed to log out of Metabase session", error);
+    }
+    this.sessionToken = null;
+    this.ownsSession = false;
+  }
+
+  /**
+   * 获取 Metabase 会话令牌
+   */
+  private async getSessionToken(): Promise<string> {
+    if (this.sessionToken) {
+      // Handles API key ("api_key_used"), caller-supplied and cached session tokens
+      return this.sessionToken;
+    }
+
+    // Share a single in-flight login between concurrent callers
+    if (!this.sessionRequest) {
+      this.sessionRequest = this.createSession().finally(() => {
+        this.sessionRequest = null;
+      });
+    }
+    return this.sessionRequest;
+  }
+
+  /**
+   * 使用用户名/密码登录 Metabase
+   */
+  private async createSession(): Promise<string> {
+    // This part should only be reached if using username/password and sessionToken is null
+    logInfo("Authenticating with Metabase using username/password...");
+    try {
+      const response = await this.axiosInstance.post("/api/session", {
+        username: this.credentials.username,
+        password: this.credentials.password,
+      });
+
+      this.sessionToken = response.data.id;
+      this.ownsSession = true;
+
+      // 设置默认请求头
+      this.axiosInstance.defaults.headers.common["X-Metabase-Session"] =
+        this.sessionToken;
+
+      logInfo("Successfully authenticated with Metabase");
+      return this.sessionToken as string;
+    } catch (error) {
+      logError("Authentication failed", error);
+      throw new McpError(
+        ErrorCode.InternalError,
+        "Failed to authenticate with Metabase",
+      );
+    }
+  }
+
+  /**
+   * 会话过期时自动重新登录并重放请求
+   */
+  private setupSessionRefresh() {
+    this.axiosInstance.interceptors.response.use(undefined, async (error) => {
+      if (!axios.isAxiosError(error) || error.response?.status !== 401) {
+        throw error;
+      }
+
+      const config = error.config as
+        | (InternalAxiosRequestConfig & { _sessionRetried?: boolean })
+        | undefined;
+      if (!config || config._sessionRetried || config.url === "/api/session") {
+        throw error;
+      }
+      config._sessionRetried = true;
+
+      // Only drop the cached session if no other caller has replaced it yet
+      const staleToken = config.headers["X-Metabase-Session"];
+      if (!staleToken || staleToken === this.sessionToken) {
+        logInfo("Metabase session expired, re-authenticating...");
+        this.sessionToken = null;
+        delete this.axiosInstance.defaults.headers.common["X-Metabase-Session"];
+      }
+
+      const token = await this.getSessionToken();
+      config.headers["X-Metabase-Session"] = token;
+      return this.axiosInstance.request(config);
+    });
+  }
+}
@@ -0,0 +1,290 @@
+/**
+ * MongoDB 聚合管道检查
+ * 对 execute_query / export_query 的 MongoDB 管道做解析和校验：
+ * - 模板变量 {{name}} 先替换为占位符再解析 JSON，并拒绝放在引号内的模板变量
+ * - 管道必须是由单个 $ 阶段组成的数组，拒绝 $out / $merge 写操作
+ * - 未指定 $limit 时自动追加
+ * 另提供将日期范围筛选改写为字符串比较 + 模板变量形式的辅助函数。
+ */
+
+import { randomUUID } from "node:crypto";
+
+export class MongoPipelineError extends Error {
+  // 触发拒绝的规则名称
+  rule: string;
+
+  constructor(rule: string, message: string) {
+    super(`MongoDB pipeline rejected (rule: ${rule}): ${message}`);
+    this.rule = rule;
+    this.name = "MongoPipelineError";
+  }
+}
+
+export interface PipelineGuardOptions {
+  // 自动追加的 $limit，0 表示不追加
+  maxRows: number;
+  // 拒绝 $out / $merge
+  readOnly: boolean;
+}
+
+export interface PipelineGuardResult {
+  query: string;
+  // 自动追加的 $limit（未追加时为 null）
+  limitApplied: number | null;
+}
+
+const WRITE_STAGES = new Set(["$out", "$merge"]);
+
+const PLACEHOLDER_PREFIX = "__mcp_template_tag_";
+
+/**
+ * 将模板变量替换为 JSON 字符串占位符、去掉 [[ ]] 可选子句标记后解析管道
+ */
+function parsePipeline(text: string): {
+  pipeline: unknown;
+  tags: string[];
+} {
+  const tags: string[] = [];
+  let json = "";
+  let inString = false;
+  let i = 0;
+
+  while (i < text.length) {
+    const ch = text[i];
+    if (inString) {
+      if (ch === "\\") {
+        json += text.slice(i, i + 2);
+        i += 2;
+        continue;
+      }
+      if (text.startsWith("{{", i)) {
+        const end = text.indexOf("}}", i);
+        const tag = text.slice(i, end === -1 ? undefined : end + 2);
+        throw new MongoPipelineError(
+          "quoted-template-tag",
+          `template tag ${tag} is inside a quoted string. Metabase substitutes the value as JSON, so write {"$gte": ${tag}} without quotes and put the quotes in the tag's value or default instead`,
+        );
+      }
+      if (ch === '"') inString = false;
+      json += ch;
+      i++;
+    } else if (ch === '"') {
+      inString = true;
+      json += ch;
+      i++;
+    } else if (text.startsWith("{{", i)) {
+      const end = text.indexOf("}}", i + 2);
+      if (end === -1) {
+        throw new MongoPipelineError(
+          "invalid-template-tag",
+          "unterminated {{ template tag",
+        );
+      }
+      tags.push(text.slice(i + 2, end).trim());
+      json += `"${PLACEHOLDER_PREFIX}${tags.length - 1}"`;
+      i = end + 2;
+    } else if (text.startsWith("[[", i) || text.startsWith("]]", i)) {
+      // Optional clause markers; their content stays in the pipeline
+      json += "  ";
+      i += 2;
+    } else {
+      json += ch;
+      i++;
+    }
+  }
+
+  try {
+    return { pipeline: JSON.parse(json), tags };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    const position = /position (\d+)/.exec(message);
+    let where = "";
+    if (position) {
+      const before = json.slice(0, Number(position[1]));
+      const line = before.split("\n").length;
+      const column = before.length - before.lastIndexOf("\n");
+      where = ` at line ${line}, column ${column}`;
+    }
+    throw new MongoPipelineError(
+      "invalid-json",
+      `the pipeline is not valid JSON${where}: ${message}`,
+    );
+  }
+}
+
+/**
+ * 检查并改写 MongoDB 聚合管道，违反规则时抛出 MongoPipelineError
+ */
+export function guardPipeline(
+  text: string,
+  options: PipelineGuardOptions,
+): PipelineGuardResult {
+  const { pipeline } = parsePipeline(text);
+
+  if (!Array.isArray(pipeline)) {
+    throw new MongoPipelineError(
+      "pipeline-array",
+      'the query must be an aggregation pipeline: a JSON array of stages such as [{"$match": {...}}]',
+    );
+  }
+
+  let hasLimit = false;
+  pipeline.forEach((stage, index) => {
+    const keys =
+      stage && typeof stage === "object" && !Array.isArray(stage)
+        ? Object.keys(stage)
+        : [];
+    if (keys.length !== 1 || !keys[0].startsWith("$")) {
+      throw new MongoPipelineError(
+        "stage-shape",
+        `stage ${index} must be an object with exactly one $-operator, e.g. {"$match": {...}}`,
+      );
+    }
+    if (options.readOnly && WRITE_STAGES.has(keys[0])) {
+      throw new MongoPipelineError(
+        "no-write-stages",
+        `${keys[0]} writes the results to a collection`,
+      );
+    }
+    if (keys[0] === "$limit") hasLimit = true;
+  });
+
+  if (options.maxRows <= 0 || hasLimit) {
+    return { query: text, limitApplied: null };
+  }
+
+  // Append to the original text so template tags stay untouched
+  const close = text.lastIndexOf("]");
+  const separator = pipeline.length > 0 ? ", " : "";
+  return {
+    query: `${text.slice(0, close).trimEnd()}${separator}{"$limit": ${options.maxRows}}${text.slice(close)}`,
+    limitApplied: options.maxRows,
+  };
+}
+
+export interface DateFilterRewrite {
+  query: string;
+  template_tags: Record<string, any>;
+  // 是否在 $match 中找到了原有的日期范围条件
+  replaced: boolean;
+}
+
+const RANGE_OPERATORS = ["$gte", "$gt", "$lte", "$lt"];
+
+/**
+ * 将字段上的日期范围筛选改写为仪表板可替换的形式：
+ * 先用 $dateToString 转为 ISO 字符串，再用不带引号的模板变量做字符串比较
+ */
+export function rewriteDateRangeFilter(
+  text: string,
+  field: string,
+  startTag: string,
+  endTag: string,
+): DateFilterRewrite {
+  const { pipeline, tags } = parsePipeline(text);
+  if (!Array.isArray(pipeline)) {
+    throw new MongoPipelineError(
+      "pipeline-array",
+      "the query must be an aggregation pipeline (a JSON array of stages)",
+    );
+  }
+
+  const isoField = `${field}_iso`;
+  let start: unknown;
+  let end: unknown;
+  let endOperator = "$lt";
+  let at = 0;
+  let replaced = false;
+
+  const stages = [...pipeline];
+  for (let index = 0; index < stages.length; index++) {
+    const condition = stages[index]?.$match?.[field];
+    if (!condition || typeof condition !== "object") continue;
+    const operators = Object.keys(condition).filter((key) =>
+      RANGE_OPERATORS.includes(key),
+    );
+    if (operators.length === 0) continue;
+
+    for (const operator of operators) {
+      const value = toIsoString(condition[operator]);
+      if (operator.startsWith("$gt")) start = value;
+      else {
+        end = value;
+        endOperator = operator;
+      }
+    }
+    const rest = Object.fromEntries(
+      Object.entries(condition).filter(([key]) => !operators.includes(key)),
+    );
+    const match = { ...stages[index].$match };
+    if (Object.keys(rest).length > 0) match[field] = rest;
+    else delete match[field];
+    stages[index] = { $match: match };
+    if (Object.keys(match).length === 0) stages.splice(index, 1);
+    at = index;
+    replaced = true;
+    break;
+  }
+
+  const startPlaceholder = `${PLACEHOLDER_PREFIX}${startTag}__`;
+  const endPlaceholder = `${PLACEHOLDER_PREFIX}${endTag}__`;
+  stages.splice(
+    at,
+    0,
+    {
+      $addFields: {
+        [isoField]: {
+          $dateToString: { date: `$${field}`, format: "%Y-%m-%dT%H:%M:%S.%LZ" },
+        },
+      },
+    },
+    {
+      $match: {
+        [isoField]: { $gte: startPlaceholder, [endOperator]: endPlaceholder },
+      },
+    },
+  );
+
+  // Put the template tags back without quotes
+  let query = JSON.stringify(stages, null, 2)
+    .replace(`"${startPlaceholder}"`, `{{${startTag}}}`)
+    .replace(`"${endPlaceholder}"`, `{{${endTag}}}`);
+  tags.forEach((tag, index) => {
+    query = query.replace(`"${PLACEHOLDER_PREFIX}${index}"`, `{{${tag}}}`);
+  });
+
+  const tag = (name: string, value: unknown) => ({
+    id: randomUUID(),
+    name,
+    "display-name": name
+      .split("_")
+      .map((word) => word[0].toUpperCase() + word.slice(1))
+      .join(" "),
+    type: "date",
+    // The pipeline is not valid JSON without a value, so the tag cannot be left empty
+    required: true,
+    // The default carries its own quotes because the tag is not quoted
+    ...(value !== undefined ? { default: JSON.stringify(value) } : {}),
+  });
+
+  return {
+    query,
+    template_tags: {
+      [startTag]: tag(startTag, start),
+      [endTag]: tag(endTag, end),
+    },
+    replaced,
+  };
+}
+
+function toIsoString(value: unknown): unknown {
+  const raw =
+    value && typeof value === "object" && "$date" in value
+      ? (value as any).$date
+      : value;
+  if (typeof raw === "string" || typeof raw === "number") {
+    const date = new Date(raw);
+    if (!Number.isNaN(date.getTime())) return date.toISOString();
+  }
+  return raw;
+}
@@ -0,0 +1,497 @@
+/**
+ * 提示模板
+ * 为常用的分析工作流（解读仪表板、从表构建 KPI 卡片、排查指标下降、编写数据库文档）生成提示，
+ * 相关的 Metabase 内容以精简 JSON 作为 resource 消息嵌入，客户端无需再调用工具获取。
+ */
+
+import { AxiosInstance } from "axios";
+import { ErrorCode, McpError } from "./errors.js";
+import { readTableResource } from "./resources.js";
+import { searchContent } from "./search.js";
+
+// 数据库文档提示中嵌入的表数量上限
+const DATABASE_TABLES_LIMIT = 100;
+
+// 按名称查找表时的候选数量
+const TABLE_SEARCH_LIMIT = 20;
+
+export interface PromptArgumentDefinition {
+  name: string;
+  description: string;
+  required?: boolean;
+}
+
+export interface PromptContext {
+  api: AxiosInstance;
+  // 由资源路径构造当前实例的资源 URI
+  uri: (path: string) => string;
+  // 只读模式下不引导客户端调用写入工具
+  readOnly: boolean;
+}
+
+type PromptContent =
+  | { type: "text"; text: string }
+  | {
+      type: "resource";
+      resource: { uri: string; mimeType: string; text: string };
+    };
+
+export interface PromptMessage {
+  role: "user";
+  content: PromptContent;
+}
+
+export interface PromptDefinition {
+  name: string;
+  description: string;
+  arguments: PromptArgumentDefinition[];
+  build(
+    args: Record<string, string>,
+    context: PromptContext,
+  ): Promise<PromptMessage[]>;
+}
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function text(value: string): PromptMessage {
+  return { role: "user", content: { type: "text", text: value } };
+}
+
+function embed(uri: string, data: unknown): PromptMessage {
+  return {
+    role: "user",
+    content: {
+      type: "resource",
+      resource: {
+        uri,
+        mimeType: "application/json",
+        text: JSON.stringify(data, null, 2),
+      },
+    },
+  };
+}
+
+function parseId(args: Record<string, string>, name: string): number {
+  const value = args[name]?.trim();
+  if (!value || !/^\d+$/.test(value) || Number(value) < 1) {
+    throw invalid(`${name} must be a positive integer, got "${args[name]}"`);
+  }
+  return Number(value);
+}
+
+function parseDate(args: Record<string, string>, name: string): string {
+  const value = args[name]?.trim();
+  if (
+    !value ||
+    !/^\d{4}-\d{2}-\d{2}$/.test(value) ||
+    Number.isNaN(Date.parse(value))
+  ) {
+    throw invalid(`${name} must be a date in YYYY-MM-DD format`);
+  }
+  return value;
+}
+
+/**
+ * 卡片的查询（兼容旧版 native / query 与 pMBQL stages 格式）
+ */
+function cardQuery(datasetQuery: any): Record<string, unknown> {
+  const stage = datasetQuery?.stages?.[0];
+  const native = datasetQuery?.native?.query ?? stage?.native;
+  if (native !== undefined) {
+    const tags =
+      datasetQuery?.native?.["template-tags"] ?? stage?.["template-tags"];
+    return {
+      type: "native",
+      sql: native,
+      ...(tags && Object.keys(tags).length > 0
+        ? {
+            template_tags: Object.values(tags).map((tag: any) => ({
+              name: tag.name,
+              type: tag.type,
+              ...(tag["widget-type"]
+                ? { widget_type: tag["widget-type"] }
+                : {}),
+              ...(tag.required ? { required: true } : {}),
+            })),
+          }
+        : {}),
+    };
+  }
+  return {
+    type: "structured",
+    query: datasetQuery?.query ?? datasetQuery?.stages ?? null,
+  };
+}
+
+function sourceTableId(datasetQuery: any): number | undefined {
+  const table =
+    datasetQuery?.query?.["source-table"] ??
+    datasetQuery?.stages?.[0]?.["source-table"];
+  return typeof table === "number" ? table : undefined;
+}
+
+/**
+ * 卡片资源：名称、展示方式、查询、参数和结果列
+ */
+function cardSummary(card: any): Record<string, unknown> {
+  return {
+    id: card.id,
+    name: card.name,
+    ...(card.description ? { description: card.description } : {}),
+    type: card.type ?? (card.dataset ? "model" : "question"),
+    display: card.display,
+    database_id: card.database_id ?? card.dataset_query?.database,
+    query: cardQuery(card.dataset_query),
+    ...(card.parameters?.length
+      ? {
+          parameters: card.parameters.map((parameter: any) => ({
+            name: parameter.name,
+            slug: parameter.slug,
+            type: parameter.type,
+          })),
+        }
+      : {}),
+    ...(card.result_metadata?.length
+      ? {
+          result_columns: card.result_metadata.map((column: any) => ({
+            name: column.name,
+            display_name: column.display_name,
+            type: column.effective_type || column.base_type,
+            ...(column.semantic_type
+              ? { semantic_type: column.semantic_type }
+              : {}),
+          })),
+        }
+      : {}),
+    updated_at: card.updated_at,
+  };
+}
+
+/**
+ * 仪表板资源：标签页、筛选器和各 dashcard 的位置及筛选器连接
+ */
+function dashboardSummary(
+  dashboard: any,
+  uri: PromptContext["uri"],
+): Record<string, unknown> {
+  const dashcards: any[] = dashboard.dashcards || dashboard.cards || [];
+  return {
+    id: dashboard.id,
+    name: dashboard.name,
+    ...(dashboard.description ? { description: dashboard.description } : {}),
+    tabs: (dashboard.tabs || []).map((tab: any) => ({
+      id: tab.id,
+      name: tab.name,
+    })),
+    parameters: (dashboard.parameters || []).map((parameter: any) => ({
+      id: parameter.id,
+      name: parameter.name,
+      type: parameter.type,
+      ...(parameter.default !== undefined
+        ? { default: parameter.default }
+        : {}),
+    })),
+    dashcards: dashcards.map((dashcard) => ({
+      id: dashcard.id,
+      ...(dashcard.dashboard_tab_id
+        ? { tab_id: dashcard.dashboard_tab_id }
+        : {}),
+      row: dashcard.row,
+      col: dashcard.col,
+      size_x: dashcard.size_x,
+      size_y: dashcard.size_y,
+      ...(dashcard.card_id
+        ? {
+            card_id: dashcard.card_id,
+            card_name: dashcard.card?.name,
+            card_uri: uri(`card/${dashcard.card_id}`),
+          }
+        : { text: dashcard.visualization_settings?.text ?? null }),
+      ...(dashcard.parameter_mappings?.length
+        ? {
+            filters: dashcard.parameter_mappings.map((mapping: any) => ({
+              parameter_id: mapping.parameter_id,
+              target: mapping.target,
+            })),
+          }
+        : {}),
+    })),
+  };
+}
+
+/**
+ * 按 ID、名称或 schema.name 查找表，返回表 ID
+ */
+async function resolveTable(
+  api: AxiosInstance,
+  value: string,
+): Promise<number> {
+  const name = value.trim();
+  if (/^\d+$/.test(name)) return Number(name);
+
+  const page = await searchContent(api, {
+    q: name.includes(".") ? name.slice(name.lastIndexOf(".") + 1) : name,
+    models: ["table"],
+    limit: TABLE_SEARCH_LIMIT,
+  });
+  const lower = name.toLowerCase();
+  const matches = page.results.filter(
+    (item) =>
+      item.table?.toLowerCase() === lower || item.name.toLowerCase() === lower,
+  );
+  if (matches.length === 1) return matches[0].id;
+
+  const candidates = (matches.length > 0 ? matches : page.results)
+    .map((item) => `${item.table ?? item.name} (ID ${item.id})`)
+    .join(", ");
+  if (matches.length > 1) {
+    throw invalid(
+      `Table "${name}" is ambiguous: ${candidates}. Pass the table ID or schema.name instead.`,
+    );
+  }
+  throw invalid(
+    candidates
+      ? `No table named "${name}". Similar tables: ${candidates}`
+      : `No table named "${name}"`,
+  );
+}
+
+export const PROMPTS: PromptDefinition[] = [
+  {
+    name: "explain_dashboard",
+    description:
+      "Explain what a dashboard shows: its filters, layout, and what each card's query computes",
+    arguments: [
+      {
+        name: "dashboard_id",
+        description: "ID of the dashboard",
+        required: true,
+      },
+    ],
+    async build(args, { api, uri }) {
+      const dashboardId = parseId(args, "dashboard_id");
+      const { data: dashboard } = await api.get(
+        `/api/dashboard/${dashboardId}`,
+      );
+      const cardIds = [
+        ...new Set<number>(
+          (dashboard.dashcards || dashboard.cards || [])
+            .map((dashcard: any) => dashcard.card_id)
+            .filter((cardId: unknown) => typeof cardId === "number"),
+        ),
+      ];
+      const cards: PromptMessage[] = [];
+      for (const cardId of cardIds) {
+        const { data: card } = await api.get(`/api/card/${cardId}`);
+        cards.push(embed(uri(`card/${cardId}`), cardSummary(card)));
+      }
+
+      return [
+        text(
+          [
+            `Explain the Metabase dashboard "${dashboard.name}" (ID ${dashboardId}) to someone who has not seen it before.`,
+            "The dashboard layout and every card it contains are attached below, including each card's query.",
+            "",
+            "Cover:",
+            "1. The overall purpose of the dashboard and who it is for.",
+            "2. Each filter, and which cards it affects.",
+            "3. Each card, tab by tab in layout order: what its query computes in plain language (source tables, aggregations, groupings, filters) and how to read the visualization.",
+            "4. Caveats such as hard-coded date ranges, excluded rows, or cards that overlap or disagree.",
+          ].join("\n"),
+        ),
+        embed(
+          uri(`dashboard/${dashboardId}`),
+          dashboardSummary(dashboard, uri),
+        ),
+        ...cards,
+      ];
+    },
+  },
+  {
+    name: "build_kpi_card",
+    description:
+      "Design a KPI card (a single number with its trend) from the columns of a table",
+    arguments: [
+      {
+        name: "table",
+        description: "Table ID, name, or schema.name",
+        required: true,
+      },
+      {
+        name: "metric",
+        description:
+          'What the KPI should measure, e.g. "total revenue" (optional; suggested from the columns if omitted)',
+      },
+    ],
+    async build(args, { api, uri, readOnly }) {
+      const tableId = await resolveTable(api, args.table ?? "");
+      const table = await readTableResource(api, tableId);
+      const metric = args.metric?.trim();
+
+      return [
+        text(
+          [
+            `Build a KPI card from the table "${table.display_name ?? table.name}" (ID ${tableId}, database ${table.database_id}). Its columns are attached below.`,
+            metric
+              ? `The KPI should measure: ${metric}.`
+              : "Suggest the most useful KPI for this table based on its columns, and explain the choice.",
+            "",
+            "Steps:",
+            "1. Pick the aggregation (count, sum, average, distinct count, ...) and column that define the KPI, and a date column to trend it over.",
+            "2. Preview it with run_structured_query: the aggregation broken out by the date column by month, so the latest value can be compared with the previous period.",
+            readOnly
+              ? "3. The server is read-only, so do not save the card. Give the final query and visualization settings so the card can be created in Metabase."
+              : '3. Ask for confirmation, then save it with create_card using display "smartscalar" so Metabase shows the latest value and its change.',
+          ].join("\n"),
+        ),
+        embed(uri(`table/${tableId}`), table),
+      ];
+    },
+  },
+  {
+    name: "investigate_metric_drop",
+    description:
+      "Investigate why the metric shown by a card dropped between two dates",
+    arguments: [
+      { name: "card_id", description: "ID of the card", required: true },
+      {
+        name: "start_date",
+        description: "Date before the drop (YYYY-MM-DD)",
+        required: true,
+      },
+      {
+        name: "end_date",
+        description: "Date after the drop (YYYY-MM-DD)",
+        required: true,
+      },
+    ],
+    async build(args, { api, uri }) {
+      const cardId = parseId(args, "card_id");
+      const startDate = parseDate(args, "start_date");
+      const endDate = parseDate(args, "end_date");
+      if (startDate >= endDate) {
+        throw invalid("start_date must be before end_date");
+      }
+
+      const { data: card } = await api.get(`/api/card/${cardId}`);
+      const messages = [embed(uri(`card/${cardId}`), cardSummary(card))];
+      const tableId = sourceTableId(card.dataset_query);
+      if (tableId !== undefined) {
+        messages.push(
+          embed(uri(`table/${tableId}`), await readTableResource(api, tableId)),
+        );
+      }
+
+      return [
+        text(
+          [
+            `The metric on the Metabase card "${card.name}" (ID ${cardId}) dropped between ${startDate} and ${endDate}. Find out why.`,
+            `The card definition${tableId !== undefined ? " and its source table" : ""} are attached below.`,
+            "",
+            "Steps:",
+            "1. Confirm the drop: run the card's query for the period before and the period after the change and compare the values.",
+            "2. Rule out a definition change: check get_revisions for the card for edits made during the period.",
+            "3. Break the metric down by its main dimensions (e.g. category, region, channel) for both periods with run_structured_query or execute_query, and find the segments that account for most of the change.",
+            "4. Check for data issues: missing or late rows, new null values, or duplicated records around the dates.",
+            "5. Summarize the most likely cause with the supporting numbers, and list the queries used.",
+          ].join("\n"),
+        ),
+        ...messages,
+      ];
+    },
+  },
+  {
+    name: "document_database",
+    description:
+      "Write documentation for a database: what each table holds, its key columns and how tables relate",
+    arguments: [
+      {
+        name: "database_id",
+        description: "ID of the database",
+        required: true,
+      },
+    ],
+    async build(args, { api, uri }) {
+      const databaseId = parseId(args, "database_id");
+      const { data: database } = await api.get(
+        `/api/database/${databaseId}/metadata`,
+      );
+      const tables: any[] = (database.tables || []).filter(
+        (table: any) => table.visibility_type == null,
+      );
+
+      const resource = {
+        id: database.id,
+        name: database.name,
+        engine: database.engine,
+        ...(database.description ? { description: database.description } : {}),
+        tables: tables.slice(0, DATABASE_TABLES_LIMIT).map((table) => ({
+          id: table.id,
+          name: table.name,
+          schema: table.schema,
+          display_name: table.display_name,
+          ...(table.description ? { description: table.description } : {}),
+          uri: uri(`table/${table.id}`),
+          fields: (table.fields || []).map((field: any) => ({
+            id: field.id,
+            name: field.name,
+            type: field.effective_type || field.base_type,
+            ...(field.semantic_type
+              ? { semantic_type: field.semantic_type }
+              : {}),
+            ...(field.fk_target_field_id
+              ? { fk_target_field_id: field.fk_target_field_id }
+              : {}),
+            ...(field.description ? { description: field.description } : {}),
+          })),
+        })),
+        ...(tables.length > DATABASE_TABLES_LIMIT
+          ? {
+              _message: `Showing the first ${DATABASE_TABLES_LIMIT} of ${tables.length} tables. Read the remaining tables through their table resources.`,
+            }
+          : {}),
+      };
+
+      return [
+        text(
+          [
+            `Write documentation for the Metabase database "${database.name}" (ID ${databaseId}, ${database.engine}). Its tables and columns are attached below.`,
+            "",
+            "For each table, describe what one row represents, its key columns (identifiers, dates, amounts, categories), and how it joins to other tables through foreign keys.",
+            "Start with an overview that groups the tables by business area, and end with a list of columns whose meaning is unclear and should be confirmed with the data owners.",
+            "Keep existing descriptions where they are accurate.",
+          ].join("\n"),
+        ),
+        embed(uri(`database/${databaseId}`), resource),
+      ];
+    },
+  },
+];
+
+/**
+ * 查找提示模板并生成消息；缺少必填参数或模板不存在时抛出 InvalidParams
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string>,
+  context: PromptContext,
+): Promise<{ description: string; messages: PromptMessage[] }> {
+  const prompt = PROMPTS.find((entry) => entry.name === name);
+  if (!prompt) {
+    throw invalid(`Unknown prompt: ${name}`);
+  }
+  const missing = prompt.arguments
+    .filter((argument) => argument.required && !args[argument.name]?.trim())
+    .map((argument) => argument.name);
+  if (missing.length > 0) {
+    throw invalid(
+      `Prompt "${name}" is missing required arguments: ${missing.join(", ")}`,
+    );
+  }
+  return {
+    description: prompt.description,
+    messages: await prompt.build(args, context),
+  };
+}
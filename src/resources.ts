@@ -0,0 +1,327 @@
+/**
+ * 资源目录
+ * resources/list 按仪表板、卡片、模型、集合、数据库、表的顺序分页列出各实例的内容，
+ * 游标记录实例、类型和偏移量；除数据库外都通过 /api/search 分页，不必每次取回全部对象。
+ * 另提供表、字段和集合内容资源的精简读取结果。
+ */
+
+import { AxiosInstance } from "axios";
+import { listCollectionItems } from "./collections.js";
+import { ErrorCode, McpError } from "./errors.js";
+import { MetabaseClient } from "./metabaseClient.js";
+import { searchContent } from "./search.js";
+
+// 每页资源数量
+export const RESOURCE_PAGE_SIZE = 100;
+
+// 字段资源中列出的取值数量上限
+const FIELD_VALUES_LIMIT = 100;
+
+// 集合内容资源中列出的项目数量上限
+const COLLECTION_ITEMS_LIMIT = 200;
+
+export interface ResourceSource {
+  instance: string;
+  client: MetabaseClient;
+}
+
+export interface ResourceEntry {
+  uri: string;
+  name: string;
+  mimeType: string;
+  description: string;
+}
+
+export interface ResourcePage {
+  resources: ResourceEntry[];
+  nextCursor?: string;
+}
+
+interface CatalogPage {
+  total: number;
+  items: { path: string; name: string }[];
+}
+
+interface CatalogKind {
+  kind: string;
+  // 资源说明中的类型名称
+  label: string;
+  fetch(
+    api: AxiosInstance,
+    offset: number,
+    limit: number,
+  ): Promise<CatalogPage>;
+}
+
+/**
+ * 通过 /api/search 分页读取某一类内容
+ */
+function searchKind(
+  model: string,
+  path: (id: number) => string,
+): CatalogKind["fetch"] {
+  return async (api, offset, limit) => {
+    const page = await searchContent(api, { models: [model], offset, limit });
+    return {
+      total: page.total,
+      items: page.results.map((item) => ({
+        path: path(item.id),
+        name: item.table ?? item.name,
+      })),
+    };
+  };
+}
+
+const CATALOG: CatalogKind[] = [
+  {
+    kind: "dashboard",
+    label: "dashboard",
+    fetch: searchKind("dashboard", (id) => `dashboard/${id}`),
+  },
+  {
+    kind: "card",
+    label: "card",
+    fetch: searchKind("card", (id) => `card/${id}`),
+  },
+  {
+    kind: "model",
+    label: "model",
+    fetch: searchKind("dataset", (id) => `card/${id}`),
+  },
+  {
+    kind: "collection",
+    label: "collection",
+    fetch: searchKind("collection", (id) => `collection/${id}/items`),
+  },
+  {
+    kind: "database",
+    label: "database",
+    // Databases are few and not part of every version's search
+    fetch: async (api, offset, limit) => {
+      const { data } = await api.get("/api/database");
+      const databases: any[] = Array.isArray(data) ? data : data.data || [];
+      return {
+        total: databases.length,
+        items: databases.slice(offset, offset + limit).map((database) => ({
+          path: `database/${database.id}`,
+          name: database.name,
+        })),
+      };
+    },
+  },
+  {
+    kind: "table",
+    label: "table",
+    fetch: searchKind("table", (id) => `table/${id}`),
+  },
+];
+
+interface Cursor {
+  instance: string;
+  kind: string;
+  offset: number;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): Cursor {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (
+      typeof cursor.instance === "string" &&
+      CATALOG.some((entry) => entry.kind === cursor.kind) &&
+      Number.isInteger(cursor.offset) &&
+      cursor.offset >= 0
+    ) {
+      return cursor;
+    }
+  } catch {
+    // Reported below
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Invalid cursor: ${value}`);
+}
+
+/**
+ * 列出一页资源
+ * @param uri 由实例名称和资源路径构造 URI
+ * @param label 资源说明中的实例标注（单实例时为 undefined）
+ */
+export async function listResources(
+  sources: ResourceSource[],
+  cursor: string | undefined,
+  uri: (instance: string, path: string) => string,
+  label: (instance: string) => string | undefined,
+): Promise<ResourcePage> {
+  const start = cursor ? decodeCursor(cursor) : undefined;
+  let sourceIndex = start
+    ? sources.findIndex((source) => source.instance === start.instance)
+    : 0;
+  if (sourceIndex === -1) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid cursor: instance "${start?.instance}" is not available`,
+    );
+  }
+  let kindIndex = start
+    ? CATALOG.findIndex((entry) => entry.kind === start.kind)
+    : 0;
+  let offset = start?.offset ?? 0;
+
+  const resources: ResourceEntry[] = [];
+  while (sourceIndex < sources.length) {
+    const { instance, client } = sources[sourceIndex];
+    const catalog = CATALOG[kindIndex];
+    const limit = RESOURCE_PAGE_SIZE - resources.length;
+    if (limit === 0) {
+      return {
+        resources,
+        nextCursor: encodeCursor({ instance, kind: catalog.kind, offset }),
+      };
+    }
+
+    await client.ensureAuthenticated();
+    const page = await catalog.fetch(client.axiosInstance, offset, limit);
+    const instanceLabel = label(instance);
+    resources.push(
+      ...page.items.map((item) => ({
+        uri: uri(instance, item.path),
+        name: item.name,
+        mimeType: "application/json",
+        description: instanceLabel
+          ? `Metabase ${catalog.label} (${instanceLabel}): ${item.name}`
+          : `Metabase ${catalog.label}: ${item.name}`,
+      })),
+    );
+
+    offset += page.items.length;
+    // An empty page also ends the kind, in case the total is off
+    if (offset >= page.total || page.items.length === 0) {
+      offset = 0;
+      kindIndex++;
+      if (kindIndex === CATALOG.length) {
+        kindIndex = 0;
+        sourceIndex++;
+      }
+    }
+  }
+  return { resources };
+}
+
+/**
+ * 表资源：表的基本信息和字段列表
+ */
+export async function readTableResource(
+  api: AxiosInstance,
+  tableId: number,
+): Promise<Record<string, unknown>> {
+  const { data: table } = await api.get(`/api/table/${tableId}/query_metadata`);
+  return {
+    id: table.id,
+    name: table.name,
+    display_name: table.display_name,
+    schema: table.schema,
+    database_id: table.db_id,
+    ...(table.db?.name ? { database: table.db.name } : {}),
+    ...(table.description ? { description: table.description } : {}),
+    ...(table.entity_type ? { entity_type: table.entity_type } : {}),
+    fields: (table.fields || []).map((field: any) => ({
+      id: field.id,
+      name: field.name,
+      display_name: field.display_name,
+      type: field.effective_type || field.base_type,
+      ...(field.semantic_type ? { semantic_type: field.semantic_type } : {}),
+      ...(field.fk_target_field_id
+        ? { fk_target_field_id: field.fk_target_field_id }
+        : {}),
+      ...(field.description ? { description: field.description } : {}),
+    })),
+  };
+}
+
+/**
+ * 字段资源：类型、所在表、取值统计，以及列表型字段的部分取值
+ */
+export async function readFieldResource(
+  api: AxiosInstance,
+  fieldId: number,
+): Promise<Record<string, unknown>> {
+  const { data: field } = await api.get(`/api/field/${fieldId}`);
+  const resource: Record<string, unknown> = {
+    id: field.id,
+    name: field.name,
+    display_name: field.display_name,
+    table: {
+      id: field.table_id,
+      name: field.table?.name,
+      schema: field.table?.schema,
+    },
+    type: field.effective_type || field.base_type,
+    semantic_type: field.semantic_type ?? null,
+  };
+  if (field.description) resource.description = field.description;
+  if (field.fk_target_field_id) {
+    resource.fk_target_field_id = field.fk_target_field_id;
+  }
+
+  const global = field.fingerprint?.global;
+  const typed = Object.values(field.fingerprint?.type || {})[0] as any;
+  if (global || typed) {
+    resource.stats = {
+      ...(global?.["distinct-count"] !== undefined
+        ? { distinct_count: global["distinct-count"] }
+        : {}),
+      ...(global?.["nil%"] !== undefined ? { null_ratio: global["nil%"] } : {}),
+      ...(typed?.min !== undefined ? { min: typed.min } : {}),
+      ...(typed?.max !== undefined ? { max: typed.max } : {}),
+      ...(typed?.avg !== undefined ? { avg: typed.avg } : {}),
+      ...(typed?.earliest !== undefined ? { earliest: typed.earliest } : {}),
+      ...(typed?.latest !== undefined ? { latest: typed.latest } : {}),
+    };
+  }
+
+  if (field.has_field_values === "list") {
+    const { data } = await api.get(`/api/field/${fieldId}/values`);
+    // Values come as [value] or [value, display name] pairs
+    const values: any[] = (data.values || []).map((value: any) =>
+      Array.isArray(value) ? value[0] : value,
+    );
+    resource.values = values.slice(0, FIELD_VALUES_LIMIT);
+    if (values.length > FIELD_VALUES_LIMIT) resource.values_truncated = true;
+  }
+  return resource;
+}
+
+/**
+ * 集合内容资源：集合中的卡片、模型、指标、仪表板和子集合，附带各自的资源路径
+ */
+export async function readCollectionItemsResource(
+  api: AxiosInstance,
+  collectionId: number | "root",
+  uri: (path: string) => string,
+): Promise<Record<string, unknown>> {
+  const page = await listCollectionItems(api, collectionId, {
+    limit: COLLECTION_ITEMS_LIMIT,
+  });
+  const path = (item: Record<string, any>) => {
+    switch (item.type) {
+      case "dashboard":
+        return `dashboard/${item.id}`;
+      case "collection":
+        return `collection/${item.id}/items`;
+      default:
+        return `card/${item.id}`;
+    }
+  };
+  return {
+    collection_id: page.collection_id,
+    total: page.total,
+    items: page.items.map((item) => ({ ...item, uri: uri(path(item)) })),
+    ...(page.total > page.items.length
+      ? {
+          _message: `Showing the first ${page.items.length} of ${page.total} items. Use list_collection_items to page through the rest.`,
+        }
+      : {}),
+  };
+}
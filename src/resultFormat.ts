@@ -0,0 +1,184 @@
+/**
+ * 查询结果输出格式
+ * 将分页后的结果序列化为紧凑的表格格式（markdown / csv / jsonl），
+ * 列的显示名称、基础类型和单位只在头部汇总一次；json_raw 保留原始结构。
+ */
+
+import { ErrorCode, McpError } from "./errors.js";
+import { ResultPage } from "./resultPages.js";
+
+export const OUTPUT_FORMATS = ["markdown", "csv", "jsonl", "json_raw"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+export const DEFAULT_OUTPUT_FORMAT: OutputFormat = "markdown";
+
+// ResultPage 自带的字段（摘要中单独输出）
+const PAGE_FIELDS = new Set([
+  "data",
+  "status",
+  "offset",
+  "returned_rows",
+  "row_count",
+  "truncated",
+  "next_page_token",
+]);
+
+// 只保留日期部分的时间分组单位
+const DATE_ONLY_UNITS = new Set(["day", "week", "month", "quarter", "year"]);
+
+export function parseOutputFormat(value: unknown): OutputFormat {
+  if (value === undefined || value === null) {
+    return DEFAULT_OUTPUT_FORMAT;
+  }
+  if (!OUTPUT_FORMATS.includes(value as OutputFormat)) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Unknown output_format "${value}". Expected one of: ${OUTPUT_FORMATS.join(", ")}`,
+    );
+  }
+  return value as OutputFormat;
+}
+
+/**
+ * 将结果页格式化为工具响应内容：头部摘要 + 数据主体
+ */
+export function formatResultPage(
+  page: ResultPage,
+  format: OutputFormat,
+): { type: "text"; text: string }[] {
+  if (format === "json_raw") {
+    return [{ type: "text", text: JSON.stringify(page, null, 2) }];
+  }
+
+  const { cols, rows } = page.data;
+  const values = rows.map((row) =>
+    row.map((value, index) => formatValue(value, cols[index])),
+  );
+
+  let body: string;
+  if (format === "csv") {
+    body = [
+      cols.map((col) => csvCell(col.name)).join(","),
+      ...values.map((row) => row.map((value) => csvCell(value)).join(",")),
+    ].join("\n");
+  } else if (format === "jsonl") {
+    body = values
+      .map((row) =>
+        JSON.stringify(
+          Object.fromEntries(cols.map((col, index) => [col.name, row[index]])),
+        ),
+      )
+      .join("\n");
+  } else {
+    body = [
+      `| ${cols.map((col) => markdownCell(col.display_name || col.name)).join(" | ")} |`,
+      `| ${cols.map(() => "---").join(" | ")} |`,
+      ...values.map(
+        (row) => `| ${row.map((value) => markdownCell(value)).join(" | ")} |`,
+      ),
+    ].join("\n");
+  }
+
+  return [
+    { type: "text", text: summarize(page) },
+    { type: "text", text: body },
+  ];
+}
+
+/**
+ * 结果摘要：行数、分页信息和列元数据
+ */
+function summarize(page: ResultPage): string {
+  const { data, status, offset, returned_rows, row_count, truncated } = page;
+  const lines = [
+    `status: ${status ?? "unknown"}`,
+    `row_count: ${row_count}`,
+    `returned_rows: ${returned_rows} (offset ${offset})`,
+    `truncated: ${truncated}`,
+  ];
+  if (page.next_page_token) {
+    lines.push(`next_page_token: ${page.next_page_token}`);
+  }
+  // Extra fields added by the tools, e.g. limit_applied
+  for (const [key, value] of Object.entries(page)) {
+    if (!PAGE_FIELDS.has(key) && value !== undefined) {
+      lines.push(`${key}: ${JSON.stringify(value)}`);
+    }
+  }
+
+  lines.push("columns:");
+  for (const col of data.cols) {
+    const details = [col.effective_type || col.base_type || "type/*"];
+    if (col.unit && col.unit !== "default") {
+      details.push(`unit: ${col.unit}`);
+    }
+    const label =
+      col.display_name && col.display_name !== col.name
+        ? `${col.name} (${col.display_name})`
+        : col.name;
+    lines.push(`- ${label}: ${details.join(", ")}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * 统一格式化单元格的值：日期转为 ISO，去除浮点噪声，null 显式输出（CSV 中为空单元格）
+ */
+function formatValue(
+  value: unknown,
+  col: any,
+): string | number | boolean | null {
+  if (value === null || value === undefined) {
+    return null;
+  }
+
+  const type = String(col?.effective_type || col?.base_type || "");
+  if (/^type\/(Date|Time)/.test(type)) {
+    return formatTemporal(value, type, col?.unit);
+  }
+
+  if (typeof value === "number") {
+    // 15 significant digits drop float noise without touching real digits
+    return Number.isInteger(value) ? value : Number(value.toPrecision(15));
+  }
+  if (typeof value === "boolean" || typeof value === "string") {
+    return value;
+  }
+  return JSON.stringify(value);
+}
+
+function formatTemporal(value: unknown, type: string, unit?: string) {
+  if (typeof value === "string") {
+    // Keep the reporting-timezone date rather than shifting it to UTC
+    const dateOnly =
+      (type.startsWith("type/Date") && !type.startsWith("type/DateTime")) ||
+      DATE_ONLY_UNITS.has(unit || "");
+    if (dateOnly && /^\d{4}-\d{2}-\d{2}/.test(value)) {
+      return value.slice(0, 10);
+    }
+    if (type.startsWith("type/Time")) {
+      return value;
+    }
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+  }
+  if (typeof value === "number") {
+    // Epoch milliseconds
+    const date = new Date(value);
+    return Number.isNaN(date.getTime()) ? value : date.toISOString();
+  }
+  return JSON.stringify(value);
+}
+
+function csvCell(value: unknown): string {
+  // An empty cell, so null is not confused with the text "null"
+  const text = value === null ? "" : String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function markdownCell(value: unknown): string {
+  const text = value === null ? "null" : String(value);
+  return text.replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
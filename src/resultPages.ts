@@ -0,0 +1,198 @@
+/**
+ * 查询结果分页
+ * 对 execute_card / execute_query 的结果做行数限制、列投影和分页，
+ * 被截断的结果缓存在本地，可通过续页令牌获取后续页面而无需重新执行查询。
+ */
+
+import { randomUUID } from "node:crypto";
+import { ErrorCode, McpError } from "./errors.js";
+
+// 默认每页行数
+export const DEFAULT_PAGE_SIZE = 100;
+// 每页行数上限
+export const MAX_PAGE_SIZE = 2000;
+// 缓存结果的有效期（15 分钟）
+const CACHE_TTL_MS = 15 * 60 * 1000;
+// 每个会话最多缓存的结果数
+const MAX_CACHED_RESULTS = 10;
+
+export interface QueryResult {
+  status?: string;
+  cols: any[];
+  rows: any[][];
+}
+
+export interface PageOptions {
+  maxRows?: number;
+  offset?: number;
+  columns?: string[];
+}
+
+export interface ResultPage {
+  status?: string;
+  // 结果总行数
+  row_count: number;
+  offset: number;
+  returned_rows: number;
+  truncated: boolean;
+  next_page_token?: string;
+  data: {
+    cols: any[];
+    rows: any[][];
+  };
+}
+
+interface CachedResult {
+  result: QueryResult;
+  expiresAt: number;
+}
+
+interface PageToken {
+  id: string;
+  offset: number;
+  maxRows: number;
+  columns?: string[];
+}
+
+export class ResultPager {
+  private cache = new Map<string, CachedResult>();
+
+  /**
+   * 返回新查询结果的第一页（或指定偏移量的页面）
+   */
+  page(result: QueryResult, options: PageOptions): ResultPage {
+    return this.slice(null, result, options);
+  }
+
+  /**
+   * 使用续页令牌返回缓存结果的下一页，maxRows / columns 可覆盖令牌中的设置
+   */
+  continue(token: string, overrides: PageOptions): ResultPage {
+    const parsed = decodeToken(token);
+    this.evictExpired();
+    const cached = this.cache.get(parsed.id);
+    if (!cached) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "page_token has expired or is unknown; run the query again",
+      );
+    }
+    return this.slice(parsed.id, cached.result, {
+      maxRows: overrides.maxRows ?? parsed.maxRows,
+      offset: overrides.offset ?? parsed.offset,
+      columns: overrides.columns ?? parsed.columns,
+    });
+  }
+
+  private slice(
+    cacheId: string | null,
+    result: QueryResult,
+    options: PageOptions,
+  ): ResultPage {
+    const maxRows = options.maxRows ?? DEFAULT_PAGE_SIZE;
+    const offset = options.offset ?? 0;
+    if (!Number.isInteger(maxRows) || maxRows < 1 || maxRows > MAX_PAGE_SIZE) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `max_rows must be an integer between 1 and ${MAX_PAGE_SIZE}`,
+      );
+    }
+    if (!Number.isInteger(offset) || offset < 0) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "offset must be a non-negative integer",
+      );
+    }
+
+    const indexes = projectColumns(result.cols, options.columns);
+    const rows = result.rows.slice(offset, offset + maxRows);
+    const nextOffset = offset + rows.length;
+    const truncated = nextOffset < result.rows.length;
+
+    const page: ResultPage = {
+      status: result.status,
+      row_count: result.rows.length,
+      offset,
+      returned_rows: rows.length,
+      truncated,
+      data: {
+        cols: indexes.map((index) => result.cols[index]),
+        rows: rows.map((row) => indexes.map((index) => row[index])),
+      },
+    };
+
+    if (truncated) {
+      const id = cacheId ?? this.store(result);
+      page.next_page_token = encodeToken({
+        id,
+        offset: nextOffset,
+        maxRows,
+        columns: options.columns,
+      });
+    }
+
+    return page;
+  }
+
+  private store(result: QueryResult): string {
+    this.evictExpired();
+    // Drop the oldest entries once the cache is full
+    while (this.cache.size >= MAX_CACHED_RESULTS) {
+      const oldest = this.cache.keys().next().value as string;
+      this.cache.delete(oldest);
+    }
+    const id = randomUUID();
+    this.cache.set(id, { result, expiresAt: Date.now() + CACHE_TTL_MS });
+    return id;
+  }
+
+  private evictExpired() {
+    const now = Date.now();
+    for (const [id, cached] of this.cache) {
+      if (cached.expiresAt <= now) {
+        this.cache.delete(id);
+      }
+    }
+  }
+}
+
+/**
+ * 按列名（name 或 display_name，不区分大小写）选择列，返回列下标
+ */
+function projectColumns(cols: any[], columns?: string[]): number[] {
+  if (!columns || columns.length === 0) {
+    return cols.map((_, index) => index);
+  }
+
+  return columns.map((column) => {
+    const wanted = String(column).toLowerCase();
+    const index = cols.findIndex(
+      (col) =>
+        String(col.name).toLowerCase() === wanted ||
+        String(col.display_name).toLowerCase() === wanted,
+    );
+    if (index === -1) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown column "${column}". Available columns: ${cols.map((col) => col.name).join(", ")}`,
+      );
+    }
+    return index;
+  });
+}
+
+function encodeToken(token: PageToken): string {
+  return Buffer.from(JSON.stringify(token)).toString("base64url");
+}
+
+function decodeToken(token: string): PageToken {
+  try {
+    const parsed = JSON.parse(Buffer.from(token, "base64url").toString());
+    if (typeof parsed.id === "string" && Number.isInteger(parsed.offset)) {
+      return parsed;
+    }
+  } catch {
+    // Fall through to the error below
+  }
+  throw new McpError(ErrorCode.InvalidParams, "Invalid page_token");
+}
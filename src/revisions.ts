@@ -0,0 +1,124 @@
+/**
+ * 修订历史
+ * 通过 /api/revision 读取卡片和仪表板的修订记录，整理为谁、何时、改了哪些字段的可读差异，
+ * 并支持恢复到指定修订；修改类工具用 latestRevisionId 在结果中附带新的修订 ID。
+ */
+
+import { AxiosInstance } from "axios";
+import { logError } from "./logger.js";
+
+export const REVISION_ENTITIES = ["card", "dashboard"] as const;
+
+export type RevisionEntity = (typeof REVISION_ENTITIES)[number];
+
+export interface FieldChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+export interface RevisionSummary {
+  revision_id: number;
+  timestamp: string;
+  user: string | null;
+  // Metabase 生成的说明，例如 "renamed this Card from A to B."
+  description?: string;
+  is_creation: boolean;
+  is_reversion: boolean;
+  changes: FieldChange[];
+}
+
+// 差异中单个值的最大长度（超出部分截断）
+const VALUE_LENGTH = 200;
+
+function userName(user: any): string | null {
+  if (!user) return null;
+  return (
+    user.common_name ||
+    [user.first_name, user.last_name].filter(Boolean).join(" ") ||
+    user.email ||
+    null
+  );
+}
+
+function shorten(value: unknown, full: boolean): unknown {
+  if (full || value === null || value === undefined) {
+    return value;
+  }
+  const text = typeof value === "string" ? value : JSON.stringify(value);
+  if (text.length <= VALUE_LENGTH) {
+    return value;
+  }
+  return `${text.slice(0, VALUE_LENGTH - 1)}…`;
+}
+
+function changes(diff: any, full: boolean): FieldChange[] {
+  const before = diff?.before || {};
+  const after = diff?.after || {};
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields.map((field) => ({
+    field,
+    before: shorten(before[field], full),
+    after: shorten(after[field], full),
+  }));
+}
+
+/**
+ * 修订记录（最新的在前）
+ * @param full 为 true 时不截断长字段（如 dataset_query）
+ */
+export async function listRevisions(
+  api: AxiosInstance,
+  entity: RevisionEntity,
+  id: number,
+  limit: number,
+  full: boolean,
+): Promise<RevisionSummary[]> {
+  const { data } = await api.get(`/api/revision?entity=${entity}&id=${id}`);
+  return (data || []).slice(0, limit).map((revision: any) => {
+    const summary: RevisionSummary = {
+      revision_id: revision.id,
+      timestamp: revision.timestamp,
+      user: userName(revision.user),
+      is_creation: Boolean(revision.is_creation),
+      is_reversion: Boolean(revision.is_reversion),
+      changes: changes(revision.diff, full),
+    };
+    if (revision.description) summary.description = revision.description;
+    return summary;
+  });
+}
+
+/**
+ * 恢复到指定修订，返回恢复后产生的新修订 ID
+ */
+export async function revertRevision(
+  api: AxiosInstance,
+  entity: RevisionEntity,
+  id: number,
+  revisionId: number,
+): Promise<number | null> {
+  const { data } = await api.post("/api/revision/revert", {
+    entity,
+    id,
+    revision_id: revisionId,
+  });
+  return data?.id ?? (await latestRevisionId(api, entity, id));
+}
+
+/**
+ * 最新修订 ID；只用于附加到结果中，查询失败时记录日志并返回 null
+ */
+export async function latestRevisionId(
+  api: AxiosInstance,
+  entity: RevisionEntity,
+  id: number,
+): Promise<number | null> {
+  try {
+    const { data } = await api.get(`/api/revision?entity=${entity}&id=${id}`);
+    return data?.[0]?.id ?? null;
+  } catch (error) {
+    logError(`Failed to look up the latest revision of ${entity} ${id}`, error);
+    return null;
+  }
+}
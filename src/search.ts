@@ -0,0 +1,191 @@
+/**
+ * 全局搜索
+ * 调用 /api/search 按关键字、类型、创建者、最后编辑等条件搜索卡片、模型、仪表板、集合、表、指标和片段，
+ * 可限定在某个集合（含子集合）内，结果压缩为类型、ID、名称、集合路径和描述摘要。
+ */
+
+import { AxiosInstance } from "axios";
+import { ErrorCode, McpError } from "./errors.js";
+
+export const SEARCH_MODELS = [
+  "card",
+  "dataset",
+  "dashboard",
+  "collection",
+  "table",
+  "metric",
+  "segment",
+] as const;
+
+export interface SearchOptions {
+  q?: string;
+  models?: string[];
+  // 只返回该集合及其子集合中的内容
+  collection_id?: number;
+  archived?: boolean;
+  created_by?: number[];
+  last_edited_by?: number[];
+  // 例如 "past30days"、"2024-01-01~2024-03-31"
+  last_edited_at?: string;
+  limit?: number;
+  offset?: number;
+}
+
+export interface SearchItem {
+  type: string;
+  id: number;
+  name: string;
+  collection: string | null;
+  description?: string;
+  database_id?: number;
+  table?: string;
+}
+
+export interface SearchPage {
+  total: number;
+  offset: number;
+  limit: number;
+  results: SearchItem[];
+}
+
+const DEFAULT_LIMIT = 20;
+const MAX_LIMIT = 100;
+const SNIPPET_LENGTH = 160;
+const ROOT_COLLECTION = "Our analytics";
+
+function invalid(message: string): McpError {
+  return new McpError(ErrorCode.InvalidParams, message);
+}
+
+function snippet(text: unknown): string | undefined {
+  if (typeof text !== "string" || text.trim() === "") {
+    return undefined;
+  }
+  const flat = text.replace(/\s+/g, " ").trim();
+  return flat.length > SNIPPET_LENGTH
+    ? `${flat.slice(0, SNIPPET_LENGTH - 1)}…`
+    : flat;
+}
+
+/**
+ * 集合路径，例如 "Our analytics / Sales / Revenue"
+ */
+function collectionPath(item: any): string | null {
+  if (item.model === "table") {
+    return null; // Tables live in databases, not collections
+  }
+  const collection = item.collection;
+  if (!collection || collection.id === null || collection.id === "root") {
+    return ROOT_COLLECTION;
+  }
+  const ancestors: any[] = collection.effective_ancestors || [];
+  // Collection results may describe themselves rather than their parent
+  const self = item.model === "collection" && collection.id === item.id;
+  return [
+    ROOT_COLLECTION,
+    ...ancestors
+      .filter((ancestor) => ancestor.id !== "root" && ancestor.id !== null)
+      .map((ancestor) => ancestor.name),
+    ...(self ? [] : [collection.name]),
+  ].join(" / ");
+}
+
+function inCollection(item: any, collectionId: number): boolean {
+  const ancestors: any[] = (item.collection?.effective_ancestors || []).map(
+    (ancestor: any) => ancestor.id,
+  );
+  if (item.model === "collection") {
+    // A collection is inside one of its ancestors, e.g. location "/1/5/"
+    return (
+      String(item.location ?? "")
+        .split("/")
+        .includes(String(collectionId)) || ancestors.includes(collectionId)
+    );
+  }
+  return (
+    item.collection?.id === collectionId || ancestors.includes(collectionId)
+  );
+}
+
+function compact(item: any): SearchItem {
+  const result: SearchItem = {
+    type: item.model,
+    id: item.id,
+    name: item.name,
+    collection: collectionPath(item),
+  };
+  const description = snippet(item.description);
+  if (description) result.description = description;
+  if (item.model === "table") {
+    result.database_id = item.database_id ?? item.table_db_id;
+    if (item.table_schema) result.table = `${item.table_schema}.${item.name}`;
+  }
+  return result;
+}
+
+/**
+ * 搜索 Metabase 内容并返回一页压缩结果
+ */
+export async function searchContent(
+  api: AxiosInstance,
+  options: SearchOptions,
+): Promise<SearchPage> {
+  const limit = options.limit ?? DEFAULT_LIMIT;
+  const offset = options.offset ?? 0;
+  if (!Number.isInteger(limit) || limit < 1 || limit > MAX_LIMIT) {
+    throw invalid(`limit must be an integer between 1 and ${MAX_LIMIT}`);
+  }
+  if (!Number.isInteger(offset) || offset < 0) {
+    throw invalid("offset must be a non-negative integer");
+  }
+  for (const model of options.models || []) {
+    if (!(SEARCH_MODELS as readonly string[]).includes(model)) {
+      throw invalid(
+        `Unknown model "${model}". Expected one of: ${SEARCH_MODELS.join(", ")}`,
+      );
+    }
+  }
+
+  const params = new URLSearchParams();
+  if (options.q) params.append("q", options.q);
+  for (const model of options.models || []) params.append("models", model);
+  if (options.archived) params.append("archived", "true");
+  for (const user of options.created_by || []) {
+    params.append("created_by", String(user));
+  }
+  for (const user of options.last_edited_by || []) {
+    params.append("last_edited_by", String(user));
+  }
+  if (options.last_edited_at) {
+    params.append("last_edited_at", options.last_edited_at);
+  }
+
+  // /api/search cannot filter by collection, so scoped searches are paged here
+  const scoped = options.collection_id !== undefined;
+  if (!scoped) {
+    params.append("limit", String(limit));
+    params.append("offset", String(offset));
+  }
+
+  const { data } = await api.get(`/api/search?${params.toString()}`);
+  // Older versions return a bare array
+  let items: any[] = Array.isArray(data) ? data : data.data || [];
+  let total: number = Array.isArray(data)
+    ? items.length
+    : (data.total ?? items.length);
+
+  if (scoped) {
+    items = items.filter((item) =>
+      inCollection(item, options.collection_id as number),
+    );
+    total = items.length;
+    items = items.slice(offset, offset + limit);
+  } else {
+    // Versions without search paging return everything
+    items = Array.isArray(data)
+      ? items.slice(offset, offset + limit)
+      : items.slice(0, limit);
+  }
+
+  return { total, offset, limit, results: items.map(compact) };
+}
@@ -0,0 +1,497 @@
+/**
+ * SQL 安全检查
+ * 对 execute_query 的原生 SQL 做词法分析（按数据库引擎选择方言），并：
+ * - 拒绝多语句批处理
+ * - 拒绝 SELECT / WITH 以外的语句以及带写操作的查询
+ * - 未指定行数限制时自动追加 LIMIT（或 TOP / FETCH FIRST）
+ */
+
+type LimitStyle = "limit" | "top" | "fetch";
+
+interface SqlDialect {
+  name: string;
+  backtickIdentifiers: boolean;
+  bracketIdentifiers: boolean;
+  backslashEscapes: boolean;
+  // PostgreSQL 的 E'...' 字符串，其中的反斜杠总是转义字符
+  escapeStrings: boolean;
+  dollarQuotes: boolean;
+  hashComments: boolean;
+  limitStyle: LimitStyle;
+}
+
+const ANSI: SqlDialect = {
+  name: "ansi",
+  backtickIdentifiers: false,
+  bracketIdentifiers: false,
+  backslashEscapes: false,
+  escapeStrings: false,
+  dollarQuotes: false,
+  hashComments: false,
+  limitStyle: "limit",
+};
+
+const POSTGRES: SqlDialect = {
+  ...ANSI,
+  name: "postgres",
+  escapeStrings: true,
+  dollarQuotes: true,
+};
+
+const MYSQL: SqlDialect = {
+  ...ANSI,
+  name: "mysql",
+  backtickIdentifiers: true,
+  backslashEscapes: true,
+  hashComments: true,
+};
+
+const BIGQUERY: SqlDialect = { ...MYSQL, name: "bigquery" };
+
+const CLICKHOUSE: SqlDialect = {
+  ...ANSI,
+  name: "clickhouse",
+  backtickIdentifiers: true,
+  backslashEscapes: true,
+};
+
+const SPARK: SqlDialect = { ...CLICKHOUSE, name: "spark" };
+
+const SQLSERVER: SqlDialect = {
+  ...ANSI,
+  name: "sqlserver",
+  bracketIdentifiers: true,
+  limitStyle: "top",
+};
+
+const ORACLE: SqlDialect = { ...ANSI, name: "oracle", limitStyle: "fetch" };
+
+const SQLITE: SqlDialect = {
+  ...ANSI,
+  name: "sqlite",
+  backtickIdentifiers: true,
+  bracketIdentifiers: true,
+};
+
+const SNOWFLAKE: SqlDialect = {
+  ...ANSI,
+  name: "snowflake",
+  dollarQuotes: true,
+};
+
+// Metabase 数据库引擎 → SQL 方言
+const ENGINE_DIALECTS: Record<string, SqlDialect> = {
+  postgres: POSTGRES,
+  redshift: POSTGRES,
+  mysql: MYSQL,
+  mariadb: MYSQL,
+  "bigquery-cloud-sdk": BIGQUERY,
+  bigquery: BIGQUERY,
+  clickhouse: CLICKHOUSE,
+  sparksql: SPARK,
+  "spark-sql": SPARK,
+  databricks: SPARK,
+  hive: SPARK,
+  sqlserver: SQLSERVER,
+  oracle: ORACLE,
+  sqlite: SQLITE,
+  snowflake: SNOWFLAKE,
+};
+
+// 无论出现在查询何处都视为写操作的关键字
+const WRITE_KEYWORDS = new Set([
+  "INSERT",
+  "UPDATE",
+  "DELETE",
+  "MERGE",
+  "UPSERT",
+  "REPLACE",
+  "DROP",
+  "ALTER",
+  "CREATE",
+  "TRUNCATE",
+  "GRANT",
+  "REVOKE",
+  "RENAME",
+  "CALL",
+  "EXEC",
+  "EXECUTE",
+]);
+
+// 集合运算：TOP 只作用于其中第一个 SELECT
+const SET_OPERATORS = new Set(["UNION", "INTERSECT", "EXCEPT"]);
+
+export function dialectForEngine(engine: string): SqlDialect {
+  return ENGINE_DIALECTS[engine] || ANSI;
+}
+
+export class SqlGuardError extends Error {
+  // 触发拒绝的规则名称
+  rule: string;
+
+  constructor(rule: string, message: string) {
+    super(`SQL guard rejected the query (rule: ${rule}): ${message}`);
+    this.rule = rule;
+    this.name = "SqlGuardError";
+  }
+}
+
+export interface SqlGuardOptions {
+  // 自动追加的行数限制，0 表示不追加
+  maxRows: number;
+}
+
+export interface SqlGuardResult {
+  query: string;
+  // 自动追加的行数限制（未追加时为 null）
+  limitApplied: number | null;
+}
+
+interface Token {
+  type: "word" | "punct" | "literal";
+  value: string;
+  start: number;
+  end: number;
+  // 括号嵌套深度
+  depth: number;
+  // 是否在 [[ ... ]] 可选子句中（参数为空时整段被去掉）
+  optional: boolean;
+}
+
+/**
+ * 词法分析：跳过注释；字符串、带引号的标识符和 {{模板变量}} 作为不透明的 literal
+ */
+function tokenize(sql: string, dialect: SqlDialect): Token[] {
+  const tokens: Token[] = [];
+  let depth = 0;
+  let optional = 0;
+  let i = 0;
+
+  const push = (
+    type: Token["type"],
+    value: string,
+    start: number,
+    end: number,
+  ) => {
+    tokens.push({ type, value, start, end, depth, optional: optional > 0 });
+  };
+
+  const literal = (start: number) => {
+    push("literal", "", start, i);
+  };
+
+  const skipQuoted = (quote: string, backslash: boolean) => {
+    const start = i;
+    i++;
+    while (i < sql.length) {
+      if (backslash && sql[i] === "\\") {
+        i += 2;
+        continue;
+      }
+      if (sql[i] === quote) {
+        // Doubled quote is an escaped quote
+        if (sql[i + 1] === quote) {
+          i += 2;
+          continue;
+        }
+        i++;
+        literal(start);
+        return;
+      }
+      i++;
+    }
+    throw new SqlGuardError(
+      "unterminated-literal",
+      `unterminated ${quote} quoted string or identifier`,
+    );
+  };
+
+  while (i < sql.length) {
+    const ch = sql[i];
+    const next = sql[i + 1];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "-" && next === "-") {
+      while (i < sql.length && sql[i] !== "\n") i++;
+    } else if (ch === "#" && dialect.hashComments) {
+      while (i < sql.length && sql[i] !== "\n") i++;
+    } else if (ch === "/" && next === "*") {
+      const end = sql.indexOf("*/", i + 2);
+      if (end === -1) {
+        throw new SqlGuardError("unterminated-comment", "unterminated comment");
+      }
+      i = end + 2;
+    } else if (ch === "'") {
+      skipQuoted("'", dialect.backslashEscapes);
+    } else if (
+      (ch === "E" || ch === "e") &&
+      next === "'" &&
+      dialect.escapeStrings
+    ) {
+      const start = i;
+      i++;
+      skipQuoted("'", true);
+      tokens[tokens.length - 1].start = start;
+    } else if (ch === '"') {
+      skipQuoted('"', dialect.backslashEscapes);
+    } else if (ch === "`" && dialect.backtickIdentifiers) {
+      skipQuoted("`", false);
+    } else if (ch === "{" && next === "{") {
+      // Metabase template tag {{name}}
+      const end = sql.indexOf("}}", i + 2);
+      if (end === -1) {
+        throw new SqlGuardError(
+          "unterminated-literal",
+          "unterminated {{ template tag",
+        );
+      }
+      const start = i;
+      i = end + 2;
+      literal(start);
+    } else if (ch === "[" && next === "[") {
+      // Metabase optional clause [[ ... ]]
+      optional++;
+      push("punct", "[[", i, i + 2);
+      i += 2;
+    } else if (ch === "]" && next === "]") {
+      push("punct", "]]", i, i + 2);
+      optional = Math.max(0, optional - 1);
+      i += 2;
+    } else if (ch === "[" && dialect.bracketIdentifiers) {
+      const end = sql.indexOf("]", i + 1);
+      if (end === -1) {
+        throw new SqlGuardError(
+          "unterminated-literal",
+          "unterminated [ quoted identifier",
+        );
+      }
+      const start = i;
+      i = end + 1;
+      literal(start);
+    } else if (ch === "$" && dialect.dollarQuotes) {
+      const tag = /^\$[A-Za-z_]*\$/.exec(sql.slice(i));
+      if (tag) {
+        const end = sql.indexOf(tag[0], i + tag[0].length);
+        if (end === -1) {
+          throw new SqlGuardError(
+            "unterminated-literal",
+            `unterminated ${tag[0]} quoted string`,
+          );
+        }
+        const start = i;
+        i = end + tag[0].length;
+        literal(start);
+      } else {
+        i++;
+      }
+    } else if (/[A-Za-z_]/.test(ch)) {
+      const start = i;
+      while (i < sql.length && /[A-Za-z0-9_$]/.test(sql[i])) i++;
+      push("word", sql.slice(start, i).toUpperCase(), start, i);
+    } else {
+      if (ch === ")") depth = Math.max(0, depth - 1);
+      push("punct", ch, i, i + 1);
+      if (ch === "(") depth++;
+      i++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * 检查并改写原生 SQL 查询，违反规则时抛出 SqlGuardError
+ */
+export function guardSql(
+  sql: string,
+  dialect: SqlDialect,
+  options: SqlGuardOptions,
+): SqlGuardResult {
+  const tokens = tokenize(sql, dialect);
+
+  // Split on top-level semicolons; a single trailing one is allowed
+  const semicolons = tokens.filter((t) => t.value === ";");
+  const lastContent = [...tokens].reverse().find((t) => t.value !== ";");
+  if (
+    semicolons.some(
+      (t) => lastContent !== undefined && t.start < lastContent.start,
+    )
+  ) {
+    throw new SqlGuardError(
+      "single-statement",
+      "multiple statements are not allowed; send one SELECT or WITH query",
+    );
+  }
+
+  const statement = tokens.filter((t) => t.value !== ";");
+  const first = statement.find((t) => t.value !== "(");
+  if (!first) {
+    throw new SqlGuardError("empty-query", "the query contains no SQL");
+  }
+  if (first.value !== "SELECT" && first.value !== "WITH") {
+    throw new SqlGuardError(
+      "read-only-statement",
+      `only SELECT or WITH queries are allowed, got ${first.type === "word" ? first.value : `"${first.value}"`}`,
+    );
+  }
+
+  // Checked before the write keywords so FOR UPDATE gets its own message
+  const lock = statement.findIndex(
+    (t, index) =>
+      t.value === "FOR" &&
+      ["UPDATE", "SHARE", "NO", "KEY"].includes(statement[index + 1]?.value),
+  );
+  if (lock !== -1) {
+    throw new SqlGuardError(
+      "no-locking-reads",
+      "SELECT ... FOR UPDATE / FOR SHARE locks the selected rows and can block writes by other sessions; remove the locking clause",
+    );
+  }
+
+  // A keyword followed by "(" is a function call, e.g. REPLACE(name, 'a', 'b')
+  const writeKeyword = statement.find(
+    (t, index) =>
+      t.type === "word" &&
+      WRITE_KEYWORDS.has(t.value) &&
+      statement[index + 1]?.value !== "(",
+  );
+  if (writeKeyword) {
+    throw new SqlGuardError(
+      "no-write-keywords",
+      `the query contains the data-modifying keyword ${writeKeyword.value}`,
+    );
+  }
+
+  const into = statement.find((t) => t.type === "word" && t.value === "INTO");
+  if (into) {
+    throw new SqlGuardError(
+      "no-select-into",
+      "SELECT ... INTO writes query results to a table or file",
+    );
+  }
+
+  if (options.maxRows <= 0 || hasRowLimit(statement, dialect)) {
+    return { query: sql, limitApplied: null };
+  }
+
+  return {
+    query: applyRowLimit(sql, statement, dialect, options.maxRows),
+    limitApplied: options.maxRows,
+  };
+}
+
+/**
+ * 顶层查询是否已经限制了返回行数；可选子句中的限制不算，参数为空时它会被去掉
+ */
+function hasRowLimit(statement: Token[], dialect: SqlDialect): boolean {
+  const setOperation = statement.some(
+    (t) => t.depth === 0 && SET_OPERATORS.has(t.value),
+  );
+  return statement.some((t, index) => {
+    if (t.depth !== 0 || t.optional || t.type !== "word") {
+      return false;
+    }
+    if (t.value === "LIMIT") {
+      // LIMIT ALL / LIMIT NULL return every row
+      const next = statement[index + 1]?.value;
+      return next !== "ALL" && next !== "NULL";
+    }
+    if (t.value === "FETCH") {
+      const next = statement[index + 1]?.value;
+      return next === "FIRST" || next === "NEXT";
+    }
+    if (t.value === "TOP" && dialect.limitStyle === "top" && !setOperation) {
+      const previous = statement[index - 1]?.value;
+      return (
+        previous === "SELECT" || previous === "DISTINCT" || previous === "ALL"
+      );
+    }
+    return false;
+  });
+}
+
+/**
+ * WITH 查询中 CTE 列表之后的主查询的起始位置，其他查询为 0
+ */
+function mainQueryStart(statement: Token[]): number {
+  if (statement[0]?.value !== "WITH") {
+    return 0;
+  }
+  let previous: Token | undefined;
+  for (let i = 1; i < statement.length; i++) {
+    const t = statement[i];
+    if (t.depth !== 0) continue;
+    // After a CTE body: "," starts the next CTE, AS follows a column list
+    if (previous?.value === ")" && t.value !== "," && t.value !== "AS") {
+      return i;
+    }
+    previous = t;
+  }
+  return 0;
+}
+
+/**
+ * 追加行数限制：LIMIT / FETCH FIRST 追加在末尾（已有无效或可选的限制时包成子查询），
+ * TOP 插入到顶层 SELECT 之后（UNION 等集合运算包成子查询）
+ */
+function applyRowLimit(
+  sql: string,
+  statement: Token[],
+  dialect: SqlDialect,
+  maxRows: number,
+): string {
+  if (dialect.limitStyle === "top") {
+    const selectIndex = statement.findIndex(
+      (t) => t.depth === 0 && t.value === "SELECT",
+    );
+    let setOperator = -1;
+    statement.forEach((t, index) => {
+      if (t.depth === 0 && SET_OPERATORS.has(t.value)) {
+        setOperator = index;
+      }
+    });
+    if (selectIndex === -1 || setOperator !== -1) {
+      // TOP would only limit the first branch of a UNION, so wrap the whole
+      // query, keeping the CTEs in front and the final ORDER BY outside
+      const start = statement[mainQueryStart(statement)];
+      const last = statement[statement.length - 1];
+      const orderBy = statement.findIndex(
+        (t, index) =>
+          index > setOperator &&
+          t.depth === 0 &&
+          t.value === "ORDER" &&
+          statement[index + 1]?.value === "BY",
+      );
+      const end = orderBy === -1 ? last.end : statement[orderBy].start;
+      const body = sql.slice(start.start, end).trimEnd();
+      const order =
+        orderBy === -1
+          ? ""
+          : `\n${sql.slice(statement[orderBy].start, last.end)}`;
+      return `${sql.slice(0, start.start)}SELECT TOP ${maxRows} * FROM (\n${body}\n) AS mcp_limited${order}`;
+    }
+    let insertAfter = statement[selectIndex];
+    const modifier = statement[selectIndex + 1];
+    if (modifier?.value === "DISTINCT" || modifier?.value === "ALL") {
+      insertAfter = modifier;
+    }
+    return `${sql.slice(0, insertAfter.end)} TOP ${maxRows}${sql.slice(insertAfter.end)}`;
+  }
+
+  // Drop the trailing semicolon and any trailing comments
+  const trimmed = sql.slice(0, statement[statement.length - 1].end);
+  const clause =
+    dialect.limitStyle === "fetch"
+      ? `FETCH FIRST ${maxRows} ROWS ONLY`
+      : `LIMIT ${maxRows}`;
+  // A LIMIT inside [[ ... ]] stays when the parameter is set, and LIMIT ALL
+  // cannot be followed by another LIMIT, so wrap instead of appending
+  const otherLimit = statement.some(
+    (t) => t.depth === 0 && (t.value === "LIMIT" || t.value === "FETCH"),
+  );
+  if (otherLimit) {
+    return `SELECT * FROM (\n${trimmed}\n) mcp_limited\n${clause}`;
+  }
+  return `${trimmed}\n${clause}`;
+}
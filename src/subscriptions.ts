@@ -0,0 +1,109 @@
+/**
+ * 资源订阅
+ * 记录客户端订阅的仪表板和卡片资源，定期轮询它们的 updated_at，变化时发送 notifications/resources/updated。
+ * 没有订阅或轮询出错时，轮询间隔逐次加倍直到上限；有新订阅时恢复为基础间隔。
+ */
+
+import { logError } from "./logger.js";
+
+export interface PollerOptions {
+  // 基础轮询间隔（毫秒）
+  interval: number;
+  // 退避后的最长间隔（毫秒）
+  maxInterval: number;
+}
+
+interface Subscription {
+  // 上次读取到的 updated_at（对象没有该字段时为 null）
+  updatedAt: string | null;
+}
+
+export class ResourceSubscriptions {
+  private subscriptions = new Map<string, Subscription>();
+  private timer: NodeJS.Timeout | null = null;
+  private delay: number;
+  private closed = false;
+
+  /**
+   * @param readUpdatedAt 读取资源当前的 updated_at；资源不支持订阅时抛出错误
+   * @param notify 通知客户端资源已更新
+   */
+  constructor(
+    private readUpdatedAt: (uri: string) => Promise<string | null>,
+    private notify: (uri: string) => Promise<void>,
+    private options: PollerOptions,
+  ) {
+    this.delay = options.interval;
+  }
+
+  /**
+   * 订阅资源；先读取一次 updated_at 作为比较基准
+   */
+  async subscribe(uri: string): Promise<void> {
+    const updatedAt = await this.readUpdatedAt(uri);
+    this.subscriptions.set(uri, { updatedAt });
+    // Resume the base interval right away after an idle backoff
+    if (this.delay !== this.options.interval) {
+      this.delay = this.options.interval;
+      this.schedule();
+    } else if (!this.timer) {
+      this.schedule();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+  }
+
+  close(): void {
+    this.closed = true;
+    this.subscriptions.clear();
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(): void {
+    if (this.closed) return;
+    if (this.timer) clearTimeout(this.timer);
+    this.timer = setTimeout(() => void this.poll(), this.delay);
+    // Polling alone should not keep the process alive
+    this.timer.unref();
+  }
+
+  private async poll(): Promise<void> {
+    this.timer = null;
+    let failed = false;
+
+    for (const [uri, subscription] of this.subscriptions) {
+      let updatedAt: string | null;
+      try {
+        updatedAt = await this.readUpdatedAt(uri);
+      } catch (error) {
+        failed = true;
+        logError(`Failed to poll subscribed resource ${uri}`, error);
+        continue;
+      }
+      // Skip resources unsubscribed while this poll was running
+      if (
+        this.subscriptions.get(uri) !== subscription ||
+        updatedAt === subscription.updatedAt
+      ) {
+        continue;
+      }
+      subscription.updatedAt = updatedAt;
+      try {
+        await this.notify(uri);
+      } catch (error) {
+        logError(`Failed to send update notification for ${uri}`, error);
+      }
+    }
+
+    this.delay =
+      this.subscriptions.size === 0 || failed
+        ? Math.min(this.delay * 2, this.options.maxInterval)
+        : this.options.interval;
+    this.schedule();
+  }
+}
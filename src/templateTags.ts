@@ -0,0 +1,336 @@
+/**
+ * 原生查询模板变量
+ * 从 SQL / MongoDB 原生查询中解析 {{变量}}、[[可选子句]]、{{snippet: 名称}} 和 {{#123-卡片}} 引用，
+ * 生成或校验 template-tags（类型、显示名称、默认值、是否必填），
+ * 在发送到 /api/card 之前报告已声明未使用、已使用未声明等问题。
+ */
+
+import { AxiosInstance } from "axios";
+import { randomUUID } from "node:crypto";
+import { ErrorCode, McpError } from "./errors.js";
+
+const TAG_TYPES = new Set([
+  "text",
+  "number",
+  "date",
+  "dimension",
+  "temporal-unit",
+  "snippet",
+  "card",
+]);
+
+// Metabase 允许的变量名
+const VARIABLE_NAME = /^[A-Za-z0-9_.]+$/;
+
+export interface TemplateReference {
+  // template-tags 中的键，例如 "start_date"、"snippet: filters"、"#12-orders"
+  key: string;
+  kind: "variable" | "snippet" | "card";
+  // 只出现在 [[ ]] 可选子句中
+  optional: boolean;
+  snippetName?: string;
+  cardId?: number;
+}
+
+export interface TemplateTagIssue {
+  tag: string;
+  severity: "error" | "warning";
+  message: string;
+}
+
+export interface TemplateTagResult {
+  tags: Record<string, any>;
+  // 自动生成的模板变量
+  generated: string[];
+  issues: TemplateTagIssue[];
+}
+
+/**
+ * 解析原生查询中的模板引用
+ */
+export function parseTemplateReferences(text: string): {
+  references: TemplateReference[];
+  issues: TemplateTagIssue[];
+} {
+  const references = new Map<string, TemplateReference>();
+  const issues: TemplateTagIssue[] = [];
+  let optionalDepth = 0;
+  let i = 0;
+
+  while (i < text.length) {
+    if (text.startsWith("[[", i)) {
+      optionalDepth++;
+      i += 2;
+    } else if (text.startsWith("]]", i) && optionalDepth > 0) {
+      optionalDepth--;
+      i += 2;
+    } else if (text.startsWith("{{", i)) {
+      const end = text.indexOf("}}", i + 2);
+      if (end === -1) {
+        issues.push({
+          tag: text.slice(i, i + 20),
+          severity: "error",
+          message: "unterminated {{ template reference",
+        });
+        break;
+      }
+      const body = text.slice(i + 2, end).trim();
+      const reference = parseReference(body);
+      if (!reference) {
+        issues.push({
+          tag: body,
+          severity: "error",
+          message: `"{{${body}}}" is not a valid variable name, snippet or card reference`,
+        });
+      } else {
+        const seen = references.get(reference.key);
+        const optional = optionalDepth > 0;
+        // A reference used outside an optional clause anywhere is required
+        references.set(reference.key, {
+          ...reference,
+          optional: seen ? seen.optional && optional : optional,
+        });
+      }
+      i = end + 2;
+    } else {
+      i++;
+    }
+  }
+
+  if (optionalDepth > 0) {
+    issues.push({
+      tag: "[[",
+      severity: "error",
+      message: "unterminated [[ optional clause",
+    });
+  }
+
+  return { references: [...references.values()], issues };
+}
+
+function parseReference(
+  body: string,
+): Omit<TemplateReference, "optional"> | null {
+  const snippet = /^snippet:\s*(.+)$/.exec(body);
+  if (snippet) {
+    const name = snippet[1].trim();
+    return { key: `snippet: ${name}`, kind: "snippet", snippetName: name };
+  }
+  const card = /^#(\d+)(-[a-z0-9-]*)?$/.exec(body);
+  if (card) {
+    return { key: body, kind: "card", cardId: Number(card[1]) };
+  }
+  return VARIABLE_NAME.test(body) ? { key: body, kind: "variable" } : null;
+}
+
+/**
+ * 按变量名推断类型：日期、数字，其余为文本
+ */
+function inferVariableType(name: string): string {
+  if (/(^|_)(date|day|start|end|from|to|since|until)$|_at$|_on$/i.test(name)) {
+    return "date";
+  }
+  if (/(^|_)(id|count|limit|number|num|amount|min|max|year)$/i.test(name)) {
+    return "number";
+  }
+  return "text";
+}
+
+function displayName(name: string): string {
+  return name
+    .replace(/^#\d+-?/, "")
+    .split(/[_.\-\s]+/)
+    .filter(Boolean)
+    .map((word) => word[0].toUpperCase() + word.slice(1))
+    .join(" ");
+}
+
+/**
+ * 为查询中的引用生成或校验 template-tags
+ * @param declared 调用方提供的 template-tags；未提供时全部自动生成
+ * @param snippetIds 片段名称 → 片段 ID
+ */
+export function buildTemplateTags(
+  references: TemplateReference[],
+  declared: Record<string, any> | undefined,
+  snippetIds: Map<string, number>,
+): TemplateTagResult {
+  const generate = !declared || Object.keys(declared).length === 0;
+  const tags: Record<string, any> = {};
+  const generated: string[] = [];
+  const issues: TemplateTagIssue[] = [];
+  const error = (tag: string, message: string) =>
+    issues.push({ tag, severity: "error", message });
+  const warn = (tag: string, message: string) =>
+    issues.push({ tag, severity: "warning", message });
+
+  for (const reference of references) {
+    const existing = declared?.[reference.key];
+    if (!existing && !generate) {
+      error(
+        reference.key,
+        `{{${reference.key}}} is used in the query but not declared in template-tags`,
+      );
+      continue;
+    }
+
+    const tag: Record<string, any> = existing ? { ...existing } : {};
+    if (!existing) generated.push(reference.key);
+    tag.id ??= randomUUID();
+    tag.name ??= reference.key;
+    tag["display-name"] ??= displayName(reference.key) || reference.key;
+
+    if (reference.kind === "snippet") {
+      tag.type ??= "snippet";
+      tag["snippet-name"] ??= reference.snippetName;
+      const snippetId = snippetIds.get(tag["snippet-name"]);
+      if (snippetId === undefined && tag["snippet-id"] === undefined) {
+        error(reference.key, `unknown snippet "${tag["snippet-name"]}"`);
+      }
+      tag["snippet-id"] ??= snippetId;
+    } else if (reference.kind === "card") {
+      tag.type ??= "card";
+      tag["card-id"] ??= reference.cardId;
+      if (tag["card-id"] !== reference.cardId) {
+        error(
+          reference.key,
+          `card-id ${tag["card-id"]} does not match the card ${reference.cardId} referenced in the query`,
+        );
+      }
+    } else {
+      tag.type ??= inferVariableType(reference.key);
+      // Variables outside optional clauses must have a value
+      tag.required ??= !reference.optional && tag.default === undefined;
+      if (reference.optional && tag.required && tag.default === undefined) {
+        warn(
+          reference.key,
+          "is only used inside an optional [[ ]] clause but is marked required without a default",
+        );
+      }
+      // Field filters render as an always-true condition when empty
+      const plainVariable = ["text", "number", "date"].includes(tag.type);
+      if (
+        plainVariable &&
+        !reference.optional &&
+        !tag.required &&
+        tag.default == null
+      ) {
+        warn(
+          reference.key,
+          "is used outside an optional [[ ]] clause but has no default, so the query fails when the filter is empty",
+        );
+      }
+    }
+
+    if (tag.name !== reference.key) {
+      error(
+        reference.key,
+        `template tag key "${reference.key}" and name "${tag.name}" must match`,
+      );
+    }
+    if (!TAG_TYPES.has(tag.type)) {
+      error(
+        reference.key,
+        `unknown template tag type "${tag.type}". Expected one of: ${[...TAG_TYPES].join(", ")}`,
+      );
+    }
+    if (tag.type === "dimension") {
+      if (!Array.isArray(tag.dimension)) {
+        error(
+          reference.key,
+          'field filter tags need a "dimension" field reference, e.g. ["field", 12, null]',
+        );
+      }
+      if (!tag["widget-type"]) {
+        warn(
+          reference.key,
+          'field filter has no "widget-type", so dashboard filters cannot be connected to it',
+        );
+      }
+    }
+
+    tags[reference.key] = tag;
+  }
+
+  for (const key of Object.keys(declared || {})) {
+    if (references.some((reference) => reference.key === key)) {
+      continue;
+    }
+    const tag = declared?.[key];
+    if (tag?.required && tag.default == null) {
+      error(
+        key,
+        "is declared as required but never used in the query, so the card can never run",
+      );
+    } else {
+      warn(key, "is declared but never used in the query");
+    }
+    tags[key] = tag;
+  }
+
+  return { tags, generated, issues };
+}
+
+/**
+ * 原生查询的文本与 template-tags 所在位置（兼容旧版 native 与 pMBQL stages 格式）
+ */
+function nativeStage(
+  datasetQuery: any,
+): { text: string; holder: Record<string, any> } | null {
+  if (typeof datasetQuery?.native?.query === "string") {
+    return { text: datasetQuery.native.query, holder: datasetQuery.native };
+  }
+  const stage = datasetQuery?.stages?.[0];
+  if (typeof stage?.native === "string") {
+    return { text: stage.native, holder: stage };
+  }
+  return null;
+}
+
+/**
+ * 在创建/更新卡片前处理原生查询的 template-tags：
+ * 未声明时自动生成，已声明时校验；存在错误时抛出 InvalidParams，返回警告
+ */
+export async function prepareTemplateTags(
+  api: AxiosInstance,
+  datasetQuery: any,
+): Promise<{ datasetQuery: any; result: TemplateTagResult } | null> {
+  const stage = nativeStage(datasetQuery);
+  if (!stage) {
+    return null;
+  }
+
+  const parsed = parseTemplateReferences(stage.text);
+  const snippetIds = await loadSnippetIds(api, parsed.references);
+  const result = buildTemplateTags(
+    parsed.references,
+    stage.holder["template-tags"],
+    snippetIds,
+  );
+  result.issues.unshift(...parsed.issues);
+
+  const errors = result.issues.filter((issue) => issue.severity === "error");
+  if (errors.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid template tags:\n${errors.map((issue) => `- ${issue.tag}: ${issue.message}`).join("\n")}\nOmit template-tags to have them generated from the query, or use infer_template_tags to preview them.`,
+    );
+  }
+
+  const prepared = structuredClone(datasetQuery);
+  nativeStage(prepared)!.holder["template-tags"] = result.tags;
+  return { datasetQuery: prepared, result };
+}
+
+export async function loadSnippetIds(
+  api: AxiosInstance,
+  references: TemplateReference[],
+): Promise<Map<string, number>> {
+  if (!references.some((reference) => reference.kind === "snippet")) {
+    return new Map();
+  }
+  const { data } = await api.get("/api/native-query-snippet");
+  return new Map(
+    (data || []).map((snippet: any) => [snippet.name, snippet.id]),
+  );
+}
@@ -0,0 +1,359 @@
+/**
+ * 卡片工具
+ * 列出、执行、创建、更新和删除问题（卡片）；原生查询的模板变量在保存前生成或校验。
+ */
+
+import { z } from "zod";
+import { buildCardParameters } from "../cardParameters.js";
+import { ErrorCode, McpError } from "../errors.js";
+import { compileStructuredQuery } from "../mbql.js";
+import { parseOutputFormat } from "../resultFormat.js";
+import { latestRevisionId } from "../revisions.js";
+import { prepareTemplateTags } from "../templateTags.js";
+import { MetabaseTool } from "./registry.js";
+import {
+  CARD_PARAMETERS,
+  display,
+  id,
+  object,
+  objects,
+  pagedQuerySchema,
+  STRUCTURED_QUERY_SHAPE,
+} from "./schemas.js";
+import {
+  pageResponse,
+  readPageOptions,
+  templateTagReport,
+  toQueryResult,
+} from "./shared.js";
+
+export const CARD_TOOLS: MetabaseTool[] = [
+  {
+    name: "list_cards",
+    description: "List all questions/cards in Metabase",
+    schema: z.object({
+      f: z
+        .enum([
+          "archived",
+          "table",
+          "database",
+          "using_model",
+          "bookmarked",
+          "using_segment",
+          "all",
+          "mine",
+        ])
+        .optional()
+        .describe("Optional filter function (default: all)"),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const f = args.f || "all";
+      const response = await client.axiosInstance.get(`/api/card?f=${f}`);
+      // Filter to only essential fields to reduce token usage
+      const filteredData = response.data.map((card: any) => ({
+        id: card.id,
+        name: card.name,
+        description: card.description,
+        display: card.display,
+        collection_id: card.collection_id,
+        database_id: card.database_id,
+        archived: card.archived,
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "execute_card",
+    description: "Execute a Metabase question/card and get results",
+    schema: pagedQuerySchema(
+      {
+        card_id: id("ID of the card/question to execute"),
+        parameters: CARD_PARAMETERS.optional().describe(
+          'Optional filter values as a map of parameter or template tag name to value, e.g. {"state": ["CA", "NY"], "created_at": {"from": "2024-01-01", "to": "2024-03-31"}, "min_total": 100}. Date filters also accept Metabase strings such as "past30days". A raw array of Metabase {type, target, value} objects is passed through unchanged.',
+        ),
+      },
+      ["card_id"],
+    ),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client, pager }) {
+      if (args.page_token) {
+        return pageResponse(
+          pager.continue(args.page_token, readPageOptions(args, true)),
+          parseOutputFormat(args.output_format),
+        );
+      }
+
+      const cardId = args.card_id;
+
+      // Resolve {name: value} maps against the card's parameters and template tags
+      let parameters = args.parameters || [];
+      if (!Array.isArray(parameters) && Object.keys(parameters).length) {
+        const cardResponse = await client.axiosInstance.get(
+          `/api/card/${cardId}`,
+        );
+        parameters = buildCardParameters(cardResponse.data, parameters);
+      }
+      const response = await client.axiosInstance.post(
+        `/api/card/${cardId}/query`,
+        { parameters: Array.isArray(parameters) ? parameters : [] },
+      );
+
+      return pageResponse(
+        pager.page(toQueryResult(response.data), readPageOptions(args)),
+        parseOutputFormat(args.output_format),
+      );
+    },
+  },
+  {
+    name: "create_card",
+    description:
+      'Create a new Metabase question (card) that will appear in collections. For MongoDB queries, use format: {"database": <database_id>, "lib/type": "mbql/query", "stages": [{"collection": "collection-name", "lib/type": "mbql.stage/native", "native": "[{...}]"}]}. For MongoDB date filters that dashboard parameters can substitute, use rewrite_mongo_date_filter to convert the pipeline first. For native queries, template-tags are generated from the query when omitted and validated when provided.',
+    schema: z
+      .object({
+        name: z.string().min(1).describe("Name of the card"),
+        dataset_query: object(
+          'The query for the card. For MongoDB: {"database": <database_id>, "lib/type": "mbql/query", "stages": [{"collection": "collection-name", "lib/type": "mbql.stage/native", "native": "[{...}]"}]}',
+        ).optional(),
+        structured_query: z
+          .object(STRUCTURED_QUERY_SHAPE)
+          .strict()
+          .optional()
+          .describe(
+            "Alternative to dataset_query: a compact query spec compiled to MBQL, as accepted by run_structured_query",
+          ),
+        display: display(
+          "Display type (e.g., 'table', 'line', 'bar', 'pie', 'scalar')",
+        ),
+        visualization_settings: object(
+          'Settings for the visualization (e.g., {"graph.dimensions": ["field"], "graph.metrics": ["count"]})',
+        ).optional(),
+        collection_id: id(
+          "Optional ID of the collection to save the card in",
+        ).optional(),
+        description: z
+          .string()
+          .optional()
+          .describe("Optional description for the card"),
+      })
+      .superRefine((args, ctx) => {
+        // Exactly one of the two query forms
+        if (
+          args.dataset_query !== undefined &&
+          args.structured_query !== undefined
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["structured_query"],
+            message:
+              "cannot be combined with dataset_query; pass only one of them",
+          });
+        } else if (
+          args.dataset_query === undefined &&
+          args.structured_query === undefined
+        ) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: ["dataset_query"],
+            message: "either dataset_query or structured_query is required",
+          });
+        }
+      }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    async handler(args, { client }) {
+      const {
+        name,
+        structured_query,
+        display,
+        visualization_settings = {},
+        collection_id,
+        description,
+      } = args;
+
+      const dataset_query =
+        args.dataset_query ??
+        (await compileStructuredQuery(client.axiosInstance, structured_query));
+
+      // Generate or validate template-tags of native queries
+      const prepared = await prepareTemplateTags(
+        client.axiosInstance,
+        dataset_query,
+      );
+
+      const createCardBody: any = {
+        name,
+        dataset_query: prepared?.datasetQuery ?? dataset_query,
+        display,
+        visualization_settings,
+      };
+      if (collection_id !== undefined)
+        createCardBody.collection_id = collection_id;
+      if (description !== undefined) createCardBody.description = description;
+
+      const response = await client.axiosInstance.post(
+        "/api/card",
+        createCardBody,
+      );
+
+      // Add a user-friendly link to view the card
+      const cardId = response.data.id;
+      const cardLink = `${client.url}/question/${cardId}`;
+      const resultWithLink = {
+        id: response.data.id,
+        name: response.data.name,
+        display: response.data.display,
+        collection_id: response.data.collection_id,
+        ...templateTagReport(prepared?.result),
+        revision_id: await latestRevisionId(
+          client.axiosInstance,
+          "card",
+          cardId,
+        ),
+        _link: cardLink,
+        _message: `Card created successfully! View it at: ${cardLink}`,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(resultWithLink, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "update_card",
+    description:
+      "Update an existing Metabase question (card). For MongoDB date filters that dashboard parameters can substitute, use rewrite_mongo_date_filter to convert the pipeline first. For native queries, template-tags are generated from the query when omitted and validated when provided.",
+    schema: z.object({
+      card_id: id("ID of the card to update"),
+      name: z.string().min(1).optional().describe("New name for the card"),
+      dataset_query: object("New query for the card").optional(),
+      display: display("New display type").optional(),
+      visualization_settings: object("New visualization settings").optional(),
+      collection_id: id("New collection ID").optional(),
+      description: z.string().optional().describe("New description"),
+      archived: z
+        .boolean()
+        .optional()
+        .describe("Set to true to archive the card"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { card_id, ...updateFields } = args;
+      if (Object.keys(updateFields).length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "No fields provided for update_card",
+        );
+      }
+      const prepared = updateFields.dataset_query
+        ? await prepareTemplateTags(
+            client.axiosInstance,
+            updateFields.dataset_query,
+          )
+        : null;
+      if (prepared) {
+        updateFields.dataset_query = prepared.datasetQuery;
+      }
+      const response = await client.axiosInstance.put(
+        `/api/card/${card_id}`,
+        updateFields,
+      );
+      // Filter to only essential fields to reduce token usage
+      const filteredData = {
+        id: response.data.id,
+        name: response.data.name,
+        display: response.data.display,
+        collection_id: response.data.collection_id,
+        archived: response.data.archived,
+        ...templateTagReport(prepared?.result),
+        revision_id: await latestRevisionId(
+          client.axiosInstance,
+          "card",
+          card_id,
+        ),
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "delete_card",
+    description: "Delete a Metabase question (card).",
+    schema: z.object({
+      card_id: id("ID of the card to delete"),
+      hard_delete: z
+        .boolean()
+        .default(false)
+        .describe("Set to true for hard delete, false for archive"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { card_id, hard_delete = false } = args;
+
+      if (hard_delete) {
+        await client.axiosInstance.delete(`/api/card/${card_id}`);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Card ${card_id} permanently deleted.`,
+            },
+          ],
+        };
+      } else {
+        // Soft delete (archive)
+        const response = await client.axiosInstance.put(
+          `/api/card/${card_id}`,
+          { archived: true },
+        );
+        const revisionId = await latestRevisionId(
+          client.axiosInstance,
+          "card",
+          card_id,
+        );
+        const revisionNote = revisionId ? ` (revision ${revisionId})` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              // Metabase might return the updated card object or just a success status.
+              // If response.data is available and meaningful, include it. Otherwise, a generic success message.
+              text: response.data
+                ? `Card ${card_id} archived${revisionNote}. Details: ${JSON.stringify(response.data, null, 2)}`
+                : `Card ${card_id} archived${revisionNote}.`,
+            },
+          ],
+        };
+      }
+    },
+  },
+];
@@ -0,0 +1,298 @@
+/**
+ * 集合工具
+ * 列出集合、集合树和集合内容，创建、移动、归档集合，以及批量移动卡片和仪表板。
+ */
+
+import { z } from "zod";
+import {
+  COLLECTION_ITEM_MODELS,
+  collectionTree,
+  listCollectionItems,
+  moveItems,
+} from "../collections.js";
+import { ErrorCode, McpError } from "../errors.js";
+import { MetabaseTool } from "./registry.js";
+import { id } from "./schemas.js";
+
+export const COLLECTION_TOOLS: MetabaseTool[] = [
+  {
+    name: "list_collections",
+    description:
+      "List all collections in Metabase as a flat list. Use get_collection_tree for the hierarchy.",
+    schema: z.object({}),
+    annotations: { readOnlyHint: true },
+    async handler(_args, { client }) {
+      const response = await client.axiosInstance.get("/api/collection");
+      // Filter to only essential fields to reduce token usage
+      const filteredData = response.data.map((collection: any) => ({
+        id: collection.id,
+        name: collection.name,
+        description: collection.description,
+        archived: collection.archived,
+        ...(collection.personal_owner_id
+          ? {
+              personal: true,
+              personal_owner_id: collection.personal_owner_id,
+            }
+          : {}),
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "get_collection_tree",
+    description:
+      "Get the collection hierarchy as a nested tree, starting at the root collection ('Our analytics') or at collection_id. Each collection lists how many questions, models, metrics, dashboards and sub-collections it contains, and total_items counts everything below it. Personal collections are marked personal.",
+    schema: z.object({
+      collection_id: id(
+        "Only return the subtree of this collection",
+      ).optional(),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const tree = await collectionTree(
+        client.axiosInstance,
+        args.collection_id,
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(tree, null, 2) }],
+      };
+    },
+  },
+  {
+    name: "list_collection_items",
+    description:
+      "List the questions, models, metrics, dashboards and sub-collections in a collection, sorted by name, one page at a time",
+    schema: z.object({
+      collection_id: z
+        .union([z.number().int().positive(), z.literal("root")])
+        .describe("Collection ID, or 'root' for the top-level collection"),
+      models: z
+        .array(z.enum(COLLECTION_ITEM_MODELS))
+        .optional()
+        .describe(
+          "Only list these item types (card = question, dataset = model)",
+        ),
+      archived: z
+        .boolean()
+        .default(false)
+        .describe("List archived items instead"),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(200)
+        .default(50)
+        .describe("Items per page (max 200)"),
+      offset: z
+        .number()
+        .int()
+        .nonnegative()
+        .default(0)
+        .describe("Number of items to skip"),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const { collection_id } = args;
+      const page = await listCollectionItems(
+        client.axiosInstance,
+        collection_id,
+        {
+          models: args.models,
+          archived: args.archived,
+          limit: args.limit,
+          offset: args.offset,
+        },
+      );
+      const next = page.offset + page.items.length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                ...page,
+                ...(next < page.total ? { next_offset: next } : {}),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "create_collection",
+    description: "Create a new collection",
+    schema: z.object({
+      name: z.string().min(1).describe("Name of the collection"),
+      description: z.string().optional().describe("Optional description"),
+      parent_id: id(
+        "Parent collection ID (omit for the root collection)",
+      ).optional(),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    async handler(args, { client }) {
+      const { name, description, parent_id } = args;
+      const body: any = {
+        name,
+        // Required by versions before 0.49
+        color: "#509EE3",
+      };
+      if (description !== undefined) body.description = description;
+      if (parent_id !== undefined) body.parent_id = parent_id;
+
+      const response = await client.axiosInstance.post("/api/collection", body);
+      const collectionLink = `${client.url}/collection/${response.data.id}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                id: response.data.id,
+                name: response.data.name,
+                description: response.data.description,
+                location: response.data.location,
+                _link: collectionLink,
+                _message: `Collection created successfully! View it at: ${collectionLink}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "move_collection",
+    description:
+      "Move a collection, with everything in it, under another collection. Metabase keeps no revision history for collections, so no revision_id is returned.",
+    schema: z.object({
+      collection_id: id("ID of the collection to move"),
+      parent_id: id(
+        "New parent collection ID, or null for the root collection",
+      ).nullable(),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { collection_id, parent_id } = args;
+      if (parent_id === collection_id) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "A collection cannot be moved into itself",
+        );
+      }
+      const response = await client.axiosInstance.put(
+        `/api/collection/${collection_id}`,
+        { parent_id },
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                id: response.data.id,
+                name: response.data.name,
+                location: response.data.location,
+                _message: `Collection ${collection_id} moved to ${parent_id === null ? "the root collection" : `collection ${parent_id}`}.`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "archive_collection",
+    description:
+      "Archive a collection and everything in it (moves it to the trash), or restore it. Metabase keeps no revision history for collections, so no revision_id is returned; restore with archived: false instead.",
+    schema: z.object({
+      collection_id: id("ID of the collection"),
+      archived: z
+        .boolean()
+        .default(true)
+        .describe("Set to false to restore the collection"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { collection_id, archived = true } = args;
+      await client.axiosInstance.put(`/api/collection/${collection_id}`, {
+        archived,
+      });
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Collection ${collection_id} ${archived ? "archived" : "restored"}.`,
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "move_items",
+    description:
+      "Move cards and dashboards into a collection in bulk. Each item is moved separately; the result lists what was moved, with each item's new revision_id, and what failed.",
+    schema: z.object({
+      collection_id: id(
+        "Target collection ID, or null for the root collection",
+      ).nullable(),
+      card_ids: z
+        .array(z.number().int().positive())
+        .optional()
+        .describe("Cards (questions, models, metrics) to move"),
+      dashboard_ids: z
+        .array(z.number().int().positive())
+        .optional()
+        .describe("Dashboards to move"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { collection_id, card_ids = [], dashboard_ids = [] } = args;
+      if (card_ids.length === 0 && dashboard_ids.length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Pass card_ids and/or dashboard_ids to move",
+        );
+      }
+      const result = await moveItems(
+        client.axiosInstance,
+        collection_id,
+        card_ids,
+        dashboard_ids,
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(result, null, 2) }],
+      };
+    },
+  },
+];
@@ -0,0 +1,392 @@
+/**
+ * 仪表板工具
+ * 列出、读取、创建、更新和删除仪表板，以及一次性创建并连接仪表板筛选器。
+ */
+
+import { z } from "zod";
+import {
+  FILTER_TYPES,
+  FilterOptions,
+  wireDashboardFilter,
+} from "../dashboardFilters.js";
+import { planDashboardLayout } from "../dashboardLayout.js";
+import { ErrorCode, McpError } from "../errors.js";
+import { latestRevisionId } from "../revisions.js";
+import { MetabaseTool } from "./registry.js";
+import { display, id, objects } from "./schemas.js";
+
+export const DASHBOARD_TOOLS: MetabaseTool[] = [
+  {
+    name: "list_dashboards",
+    description: "List all dashboards in Metabase",
+    schema: z.object({}),
+    annotations: { readOnlyHint: true },
+    async handler(_args, { client }) {
+      const response = await client.axiosInstance.get("/api/dashboard");
+      // Filter to only essential fields to reduce token usage
+      const filteredData = response.data.map((dashboard: any) => ({
+        id: dashboard.id,
+        name: dashboard.name,
+        description: dashboard.description,
+        collection_id: dashboard.collection_id,
+        archived: dashboard.archived,
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "get_dashboard_cards",
+    description: "Get all cards in a dashboard",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard"),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const dashboardId = args.dashboard_id;
+
+      const response = await client.axiosInstance.get(
+        `/api/dashboard/${dashboardId}`,
+      );
+
+      // Return dashcards (which is the correct field name in Metabase API)
+      const dashcards = response.data.dashcards || response.data.cards || [];
+
+      // Filter to only essential fields to reduce token usage
+      const filteredDashcards = dashcards.map((dc: any) => ({
+        id: dc.id,
+        card_id: dc.card_id,
+        row: dc.row,
+        col: dc.col,
+        size_x: dc.size_x,
+        size_y: dc.size_y,
+        card: dc.card
+          ? {
+              id: dc.card.id,
+              name: dc.card.name,
+              display: dc.card.display,
+            }
+          : undefined,
+        parameter_mappings: dc.parameter_mappings || [],
+      }));
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredDashcards, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "get_dashboard",
+    description:
+      "Get full dashboard details including tabs, cards, and parameters",
+    schema: z.object({ dashboard_id: id("ID of the dashboard") }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const dashboardId = args.dashboard_id;
+
+      const response = await client.axiosInstance.get(
+        `/api/dashboard/${dashboardId}`,
+      );
+
+      // Return full dashboard details including tabs
+      const filteredData = {
+        id: response.data.id,
+        name: response.data.name,
+        description: response.data.description,
+        tabs: response.data.tabs || [],
+        parameters: response.data.parameters || [],
+        dashcards_count: (response.data.dashcards || []).length,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "create_dashboard",
+    description: "Create a new Metabase dashboard.",
+    schema: z.object({
+      name: z.string().min(1).describe("Name of the dashboard"),
+      description: z
+        .string()
+        .optional()
+        .describe("Optional description for the dashboard"),
+      parameters: objects("Optional parameters for the dashboard").optional(),
+      collection_id: id(
+        "Optional ID of the collection to save the dashboard in",
+      ).optional(),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    async handler(args, { client }) {
+      const { name, description, parameters, collection_id } = args;
+      const createDashboardBody: any = { name };
+      if (description !== undefined)
+        createDashboardBody.description = description;
+      if (parameters !== undefined) createDashboardBody.parameters = parameters;
+      if (collection_id !== undefined)
+        createDashboardBody.collection_id = collection_id;
+
+      const response = await client.axiosInstance.post(
+        "/api/dashboard",
+        createDashboardBody,
+      );
+
+      // Add a user-friendly link to view the dashboard
+      const dashboardId = response.data.id;
+      const dashboardLink = `${client.url}/dashboard/${dashboardId}`;
+      const resultWithLink = {
+        id: response.data.id,
+        name: response.data.name,
+        description: response.data.description,
+        collection_id: response.data.collection_id,
+        revision_id: await latestRevisionId(
+          client.axiosInstance,
+          "dashboard",
+          dashboardId,
+        ),
+        _link: dashboardLink,
+        _message: `Dashboard created successfully! View it at: ${dashboardLink}`,
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(resultWithLink, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "update_dashboard",
+    description: "Update an existing Metabase dashboard.",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard to update"),
+      name: z.string().min(1).optional().describe("New name for the dashboard"),
+      description: z
+        .string()
+        .optional()
+        .describe("New description for the dashboard"),
+      parameters: objects("New parameters for the dashboard").optional(),
+      collection_id: id("New collection ID").optional(),
+      archived: z
+        .boolean()
+        .optional()
+        .describe("Set to true to archive the dashboard"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, ...updateFields } = args;
+      if (Object.keys(updateFields).length === 0) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "No fields provided for update_dashboard",
+        );
+      }
+      const response = await client.axiosInstance.put(
+        `/api/dashboard/${dashboard_id}`,
+        updateFields,
+      );
+      // Filter to only essential fields to reduce token usage
+      const filteredData = {
+        id: response.data.id,
+        name: response.data.name,
+        description: response.data.description,
+        collection_id: response.data.collection_id,
+        archived: response.data.archived,
+        revision_id: await latestRevisionId(
+          client.axiosInstance,
+          "dashboard",
+          dashboard_id,
+        ),
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "delete_dashboard",
+    description: "Delete a Metabase dashboard.",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard to delete"),
+      hard_delete: z
+        .boolean()
+        .default(false)
+        .describe("Set to true for hard delete, false for archive"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, hard_delete = false } = args;
+
+      if (hard_delete) {
+        await client.axiosInstance.delete(`/api/dashboard/${dashboard_id}`);
+        return {
+          content: [
+            {
+              type: "text",
+              text: `Dashboard ${dashboard_id} permanently deleted.`,
+            },
+          ],
+        };
+      } else {
+        // Soft delete (archive)
+        const response = await client.axiosInstance.put(
+          `/api/dashboard/${dashboard_id}`,
+          { archived: true },
+        );
+        const revisionId = await latestRevisionId(
+          client.axiosInstance,
+          "dashboard",
+          dashboard_id,
+        );
+        const revisionNote = revisionId ? ` (revision ${revisionId})` : "";
+        return {
+          content: [
+            {
+              type: "text",
+              text: response.data
+                ? `Dashboard ${dashboard_id} archived${revisionNote}. Details: ${JSON.stringify(response.data, null, 2)}`
+                : `Dashboard ${dashboard_id} archived${revisionNote}.`,
+            },
+          ],
+        };
+      }
+    },
+  },
+  {
+    name: "add_dashboard_filter",
+    description:
+      "Create a dashboard filter and connect it to the dashboard's cards in one step. Native (SQL/MongoDB) cards are wired through a template tag with a matching name (default: the filter's slug); query builder cards are wired through field_id or field_name on their source table. Returns the new parameter, the cards that were wired and the cards that could not be wired with the reason.",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard"),
+      name: z.string().min(1).describe("Filter label shown on the dashboard"),
+      type: z
+        .enum(FILTER_TYPES)
+        .describe(
+          "Filter type, e.g. date/range, date/all-options, string/=, category, number/between, id",
+        ),
+      slug: z
+        .string()
+        .optional()
+        .describe("URL slug of the filter (default: derived from name)"),
+      default: z.unknown().optional().describe("Optional default value"),
+      tag_names: z
+        .array(z.string())
+        .optional()
+        .describe(
+          "Template tag names to connect in native cards (default: [slug])",
+        ),
+      field_id: id(
+        "Field to filter in query builder cards (also matches field filter tags on this field)",
+      ).optional(),
+      field_name: z
+        .string()
+        .optional()
+        .describe(
+          "Field name to filter in query builder cards, looked up on each card's source table",
+        ),
+      dashcard_ids: z
+        .array(z.number().int().positive())
+        .optional()
+        .describe("Only wire these dashcards (default: all)"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, ...filter } = args;
+
+      const dashboardResponse = await client.axiosInstance.get(
+        `/api/dashboard/${dashboard_id}`,
+      );
+      const dashboard = dashboardResponse.data;
+      const wiring = await wireDashboardFilter(
+        client.axiosInstance,
+        dashboard,
+        filter as FilterOptions,
+      );
+
+      const plan = planDashboardLayout(dashboard, {
+        dashcards: (dashboard.dashcards || []).map((dc: any) => ({
+          id: dc.id,
+          card_id: dc.card_id,
+          dashboard_tab_id: dc.dashboard_tab_id ?? undefined,
+          row: dc.row,
+          col: dc.col,
+          size_x: dc.size_x,
+          size_y: dc.size_y,
+          parameter_mappings: [
+            ...(dc.parameter_mappings || []),
+            ...(wiring.mappings.get(dc.id) || []),
+          ],
+        })),
+        parameters: [...(dashboard.parameters || []), wiring.parameter],
+      });
+      await client.axiosInstance.put(
+        `/api/dashboard/${dashboard_id}`,
+        plan.body,
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                parameter: wiring.parameter,
+                wired: wiring.wired,
+                not_wired: wiring.not_wired,
+                revision_id: await latestRevisionId(
+                  client.axiosInstance,
+                  "dashboard",
+                  dashboard_id,
+                ),
+                _link: `${client.url}/dashboard/${dashboard_id}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+];
@@ -0,0 +1,560 @@
+/**
+ * 仪表板卡片工具
+ * 在仪表板上添加、移除和调整卡片，声明式设置整个布局，以及在 24 列网格上重新排列。
+ */
+
+import { z } from "zod";
+import {
+  dashcardDisplay,
+  defaultCardSize,
+  findFreeSlot,
+  findFreeSlotAlong,
+  relayout,
+  RELAYOUT_MODES,
+  RelayoutMode,
+} from "../dashboardGrid.js";
+import { planDashboardLayout, validatePlacement } from "../dashboardLayout.js";
+import { ErrorCode, McpError } from "../errors.js";
+import { latestRevisionId } from "../revisions.js";
+import { MetabaseTool } from "./registry.js";
+import {
+  display,
+  DRY_RUN,
+  gridHeight,
+  gridPosition,
+  gridWidth,
+  id,
+  object,
+  objects,
+} from "./schemas.js";
+
+export const DASHCARD_TOOLS: MetabaseTool[] = [
+  {
+    name: "add_card_to_dashboard",
+    description:
+      "Add an existing card to a dashboard. When row/col are omitted the card is placed in the first free slot of the 24-column grid (or on a new row); when only one of them is given it is kept and the free slot is searched along the other axis; when size_x/size_y are omitted a default size for the card's visualization type is used.",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard to add the card to"),
+      card_id: id("ID of the card to add"),
+      row: gridPosition(
+        "Row position (default: first free slot; with only col given, the first free row in that column)",
+      ).optional(),
+      col: gridPosition(
+        "Column position, 0-23 (default: first free slot; with only row given, the first free column in that row)",
+      ).optional(),
+      size_x: gridWidth(
+        "Width in grid units out of 24 (default: by display type, e.g. 6 for scalars, 12 for charts, 24 for tables)",
+      ).optional(),
+      size_y: gridHeight(
+        "Height in grid units (default: by display type)",
+      ).optional(),
+      dashboard_tab_id: id(
+        "ID of the dashboard tab to add the card to (optional)",
+      ).optional(),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, card_id, row, col, size_x, size_y } = args;
+
+      // First, get existing dashboard to retrieve current cards and tabs
+      const dashboardResponse = await client.axiosInstance.get(
+        `/api/dashboard/${dashboard_id}`,
+      );
+
+      // Extract existing cards (dashcards) and tabs
+      const existingCards = dashboardResponse.data.dashcards || [];
+      const existingTabs = dashboardResponse.data.tabs || [];
+
+      // Map existing cards to the format needed for PUT
+      const existingCardsFormatted = existingCards.map((dc: any) => ({
+        id: dc.id,
+        card_id: dc.card_id,
+        row: dc.row,
+        col: dc.col,
+        size_x: dc.size_x,
+        size_y: dc.size_y,
+        series: dc.series || [],
+        visualization_settings: dc.visualization_settings || {},
+        parameter_mappings: dc.parameter_mappings || [],
+        dashboard_tab_id: dc.dashboard_tab_id || null,
+      }));
+
+      // Dashboards with tabs need the card on a tab; default to the first one
+      const dashboard_tab_id = args.dashboard_tab_id ?? existingTabs[0]?.id;
+
+      // Size by visualization type, position in the first free slot
+      let size = { size_x, size_y };
+      if (size_x === undefined || size_y === undefined) {
+        const cardResponse = await client.axiosInstance.get(
+          `/api/card/${card_id}`,
+        );
+        const defaults = defaultCardSize(cardResponse.data.display);
+        size = {
+          size_x: size_x ?? defaults.size_x,
+          size_y: size_y ?? defaults.size_y,
+        };
+      }
+      const occupied = existingCardsFormatted.filter(
+        (dc: any) => (dc.dashboard_tab_id ?? undefined) === dashboard_tab_id,
+      );
+      let position: { row: number; col: number } | null;
+      if (row !== undefined && col !== undefined) {
+        position = { row, col };
+      } else if (row === undefined && col === undefined) {
+        position = findFreeSlot(occupied, size);
+      } else {
+        // Keep the given coordinate and search along the other axis
+        position = findFreeSlotAlong(
+          occupied,
+          size,
+          row !== undefined ? { row } : { col },
+        );
+        if (!position) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            row !== undefined
+              ? `No free slot ${size.size_x} columns wide in row ${row}; pass col as well, or omit row`
+              : `A card ${size.size_x} columns wide does not fit at col ${col} of the 24-column grid`,
+          );
+        }
+      }
+
+      // Add the new card with id=-1
+      const newCard: any = {
+        id: -1,
+        card_id: card_id,
+        row: position.row,
+        col: position.col,
+        size_x: size.size_x,
+        size_y: size.size_y,
+      };
+      validatePlacement(newCard, `card ${card_id}`);
+
+      // Add dashboard_tab_id if provided
+      if (dashboard_tab_id !== undefined) {
+        newCard.dashboard_tab_id = dashboard_tab_id;
+      }
+
+      const allCards = [...existingCardsFormatted, newCard];
+
+      // Metabase API requires PUT with all cards AND tabs if tabs exist
+      const updateBody: any = {
+        cards: allCards,
+      };
+
+      // Include tabs if they exist
+      if (existingTabs.length > 0) {
+        updateBody.tabs = existingTabs;
+      }
+
+      const response = await client.axiosInstance.put(
+        `/api/dashboard/${dashboard_id}/cards`,
+        updateBody,
+      );
+
+      // Filter to only essential fields to reduce token usage
+      const filteredData = {
+        cards: response.data.cards?.map((dc: any) => ({
+          id: dc.id,
+          card_id: dc.card_id,
+          row: dc.row,
+          col: dc.col,
+          size_x: dc.size_x,
+          size_y: dc.size_y,
+          dashboard_tab_id: dc.dashboard_tab_id,
+        })),
+        revision_id: await latestRevisionId(
+          client.axiosInstance,
+          "dashboard",
+          dashboard_id,
+        ),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "remove_card_from_dashboard",
+    description:
+      "Remove a card from a dashboard (does not delete the card itself, just removes it from the dashboard).",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard"),
+      dashcard_id: id(
+        "ID of the dashboard card (dashcard) to remove. Use get_dashboard_cards to find this ID.",
+      ),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, dashcard_id } = args;
+
+      await client.axiosInstance.delete(
+        `/api/dashboard/${dashboard_id}/cards/${dashcard_id}`,
+      );
+      const revisionId = await latestRevisionId(
+        client.axiosInstance,
+        "dashboard",
+        dashboard_id,
+      );
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: `Card ${dashcard_id} removed from dashboard ${dashboard_id}${revisionId ? ` (revision ${revisionId})` : ""}.`,
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "update_dashboard_card",
+    description:
+      'Update the position, size, or parameter mappings of a card in a dashboard. For date filtering: ensure card template tags are configured correctly (see create_card/update_card descriptions), then use parameter_mappings to connect dashboard date parameters to card template tags. Example mapping: [{"parameter_id": "date_start_param", "target": ["variable", ["template-tag", "date_start"]], "card_id": 99}]',
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard"),
+      dashcard_id: id("ID of the dashboard card to update"),
+      row: gridPosition("New row position").optional(),
+      col: gridPosition("New column position").optional(),
+      size_x: gridWidth("New width in grid units").optional(),
+      size_y: gridHeight("New height in grid units").optional(),
+      parameter_mappings: objects(
+        "Parameter mappings to connect dashboard filters to card template tags",
+      ).optional(),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, dashcard_id, parameter_mappings, ...updateFields } =
+        args;
+
+      if (
+        Object.keys(updateFields).length === 0 &&
+        parameter_mappings === undefined
+      ) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "No fields provided for update_dashboard_card",
+        );
+      }
+
+      // First, get existing dashboard to retrieve current cards and tabs
+      const dashboardResponse = await client.axiosInstance.get(
+        `/api/dashboard/${dashboard_id}`,
+      );
+
+      // Extract existing cards (dashcards) and tabs
+      const existingCards = dashboardResponse.data.dashcards || [];
+      const existingTabs = dashboardResponse.data.tabs || [];
+
+      // Find and update the specific card
+      const updatedCards = existingCards.map((dc: any) => {
+        if (dc.id === dashcard_id) {
+          // Update this card with new fields
+          const placement = {
+            row: updateFields.row !== undefined ? updateFields.row : dc.row,
+            col: updateFields.col !== undefined ? updateFields.col : dc.col,
+            size_x:
+              updateFields.size_x !== undefined
+                ? updateFields.size_x
+                : dc.size_x,
+            size_y:
+              updateFields.size_y !== undefined
+                ? updateFields.size_y
+                : dc.size_y,
+          };
+          if (Object.keys(updateFields).length > 0) {
+            validatePlacement(placement, `dashcard ${dashcard_id}`);
+          }
+          return {
+            id: dc.id,
+            card_id: dc.card_id,
+            ...placement,
+            series: dc.series || [],
+            visualization_settings: dc.visualization_settings || {},
+            parameter_mappings:
+              parameter_mappings !== undefined
+                ? parameter_mappings
+                : dc.parameter_mappings || [],
+            dashboard_tab_id: dc.dashboard_tab_id || null,
+          };
+        }
+        // Keep other cards as-is
+        return {
+          id: dc.id,
+          card_id: dc.card_id,
+          row: dc.row,
+          col: dc.col,
+          size_x: dc.size_x,
+          size_y: dc.size_y,
+          series: dc.series || [],
+          visualization_settings: dc.visualization_settings || {},
+          parameter_mappings: dc.parameter_mappings || [],
+          dashboard_tab_id: dc.dashboard_tab_id || null,
+        };
+      });
+
+      // PUT all cards back with tabs if they exist
+      const updateBody: any = {
+        cards: updatedCards,
+      };
+
+      // Include tabs if they exist
+      if (existingTabs.length > 0) {
+        updateBody.tabs = existingTabs;
+      }
+
+      const response = await client.axiosInstance.put(
+        `/api/dashboard/${dashboard_id}/cards`,
+        updateBody,
+      );
+
+      // Filter to only essential fields to reduce token usage
+      const filteredData = {
+        cards: response.data.cards?.map((dc: any) => ({
+          id: dc.id,
+          card_id: dc.card_id,
+          row: dc.row,
+          col: dc.col,
+          size_x: dc.size_x,
+          size_y: dc.size_y,
+          parameter_mappings: dc.parameter_mappings || [],
+        })),
+        revision_id: await latestRevisionId(
+          client.axiosInstance,
+          "dashboard",
+          dashboard_id,
+        ),
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "apply_dashboard_layout",
+    description:
+      "Set the complete layout of a dashboard in one update: its tabs, dashboard cards (position, size, card, parameter mappings, series, visualization overrides) and parameters. The desired state is diffed against the live dashboard; dashcards not listed are removed. Returns what was added, moved, changed and removed. Use dry_run to preview. Prefer this over repeated add_card_to_dashboard / update_dashboard_card calls when building or rearranging a dashboard.",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard"),
+      tabs: z
+        .array(
+          z
+            .object({
+              id: z.number().int().positive().optional(),
+              name: z.string().min(1),
+            })
+            .strict(),
+        )
+        .optional()
+        .describe(
+          "Desired tabs in order. Existing tabs are matched by id, then by name. Omit to keep the current tabs.",
+        ),
+      dashcards: z
+        .array(
+          z
+            .object({
+              id: id("Existing dashcard ID (optional)").optional(),
+              card_id: id(
+                "Card to show; null for text/heading cards. Omit to keep the card of the dashcard matched by id (new dashcards without one are text cards)",
+              )
+                .nullable()
+                .optional(),
+              dashboard_tab_id: z.number().int().positive().optional(),
+              tab_name: z
+                .string()
+                .optional()
+                .describe("Tab to place the card on, by name"),
+              row: gridPosition("Row position"),
+              col: gridPosition("Column position"),
+              size_x: gridWidth("Width in grid units"),
+              size_y: gridHeight("Height in grid units"),
+              parameter_mappings: objects(
+                "Filter mappings; card_id defaults to the dashcard's card",
+              ).optional(),
+              series: z
+                .array(z.number().int().positive())
+                .optional()
+                .describe("IDs of extra cards combined into this one"),
+              visualization_settings: object(
+                "Dashcard-level visualization overrides",
+              ).optional(),
+            })
+            .strict(),
+        )
+        .describe(
+          "Desired dashboard cards. Existing dashcards are matched by id, or by card_id when the card appears once; others are created. The grid is 24 columns wide.",
+        ),
+      parameters: objects(
+        "Desired dashboard parameters (filters), matched by id. Omit to keep the current parameters.",
+      ).optional(),
+      dry_run: DRY_RUN,
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, tabs, dashcards, parameters, dry_run } = args;
+
+      const dashboardResponse = await client.axiosInstance.get(
+        `/api/dashboard/${dashboard_id}`,
+      );
+      const plan = planDashboardLayout(dashboardResponse.data, {
+        tabs,
+        dashcards,
+        parameters,
+      });
+
+      const applied = !dry_run && plan.changed;
+      if (applied) {
+        await client.axiosInstance.put(
+          `/api/dashboard/${dashboard_id}`,
+          plan.body,
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                dashboard_id,
+                dry_run: Boolean(dry_run),
+                applied,
+                ...plan.summary,
+                ...(applied
+                  ? {
+                      revision_id: await latestRevisionId(
+                        client.axiosInstance,
+                        "dashboard",
+                        dashboard_id,
+                      ),
+                    }
+                  : {}),
+                _link: `${client.url}/dashboard/${dashboard_id}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "relayout_dashboard",
+    description:
+      "Tidy up the layout of an existing dashboard on the 24-column grid. 'pack' keeps every card's size and moves cards up and left to remove gaps and overlaps; 'reflow' also resets each card to the default size for its visualization type. Reading order (top to bottom, left to right) is preserved. Use dry_run to preview.",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard"),
+      mode: z.enum(RELAYOUT_MODES).default("pack").describe("Layout strategy"),
+      dashboard_tab_id: id(
+        "Only re-arrange this tab (default: all tabs)",
+      ).optional(),
+      dry_run: DRY_RUN,
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: true,
+    },
+    async handler(args, { client }) {
+      const { dashboard_id, mode = "pack", dashboard_tab_id, dry_run } = args;
+
+      const dashboardResponse = await client.axiosInstance.get(
+        `/api/dashboard/${dashboard_id}`,
+      );
+      const existingCards: any[] = dashboardResponse.data.dashcards || [];
+
+      // Each tab is laid out independently
+      const byTab = new Map<number | null, any[]>();
+      for (const dc of existingCards) {
+        const tab = dc.dashboard_tab_id ?? null;
+        byTab.set(tab, [...(byTab.get(tab) || []), dc]);
+      }
+      const arranged = [...byTab].flatMap(([tab, cards]) =>
+        dashboard_tab_id !== undefined && tab !== dashboard_tab_id
+          ? cards
+          : relayout(cards, mode as RelayoutMode, (dc) =>
+              defaultCardSize(dashcardDisplay(dc)),
+            ),
+      );
+
+      const plan = planDashboardLayout(dashboardResponse.data, {
+        dashcards: arranged.map((dc: any) => ({
+          id: dc.id,
+          card_id: dc.card_id,
+          dashboard_tab_id: dc.dashboard_tab_id ?? undefined,
+          row: dc.row,
+          col: dc.col,
+          size_x: dc.size_x,
+          size_y: dc.size_y,
+        })),
+      });
+
+      const applied = !dry_run && plan.changed;
+      if (applied) {
+        await client.axiosInstance.put(
+          `/api/dashboard/${dashboard_id}`,
+          plan.body,
+        );
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                dashboard_id,
+                mode,
+                dry_run: Boolean(dry_run),
+                applied,
+                moved: plan.summary.dashcards.moved,
+                unchanged: plan.summary.dashcards.unchanged,
+                ...(applied
+                  ? {
+                      revision_id: await latestRevisionId(
+                        client.axiosInstance,
+                        "dashboard",
+                        dashboard_id,
+                      ),
+                    }
+                  : {}),
+                _link: `${client.url}/dashboard/${dashboard_id}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+];
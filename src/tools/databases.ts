@@ -0,0 +1,106 @@
+/**
+ * 数据库工具
+ * 列出数据库，读取数据库详情和元数据。
+ */
+
+import { z } from "zod";
+import { MetabaseTool } from "./registry.js";
+import { id } from "./schemas.js";
+
+export const DATABASE_TOOLS: MetabaseTool[] = [
+  {
+    name: "list_databases",
+    description: "List all databases in Metabase",
+    schema: z.object({}),
+    annotations: { readOnlyHint: true },
+    async handler(_args, { client }) {
+      const response = await client.axiosInstance.get("/api/database");
+      // Filter to only essential fields to reduce token usage
+      const filteredData = response.data.map((database: any) => ({
+        id: database.id,
+        name: database.name,
+        engine: database.engine,
+      }));
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "get_database",
+    description:
+      "Get detailed information about a specific Metabase database including tables and schema",
+    schema: z.object({ database_id: id("ID of the database") }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const databaseId = args.database_id;
+
+      const response = await client.axiosInstance.get(
+        `/api/database/${databaseId}`,
+      );
+      // Filter to only essential fields to reduce token usage
+      const filteredData = {
+        id: response.data.id,
+        name: response.data.name,
+        engine: response.data.engine,
+        tables: response.data.tables?.map((table: any) => ({
+          id: table.id,
+          name: table.name,
+        })),
+      };
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "get_database_metadata",
+    description:
+      "Get complete metadata for a database including all tables, fields, and schema information",
+    schema: z.object({ database_id: id("ID of the database") }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const databaseId = args.database_id;
+
+      const response = await client.axiosInstance.get(
+        `/api/database/${databaseId}/metadata`,
+      );
+
+      // Filter to only include table names/IDs and field names/IDs
+      const filteredData = {
+        id: response.data.id,
+        name: response.data.name,
+        tables:
+          response.data.tables?.map((table: any) => ({
+            id: table.id,
+            name: table.name,
+            fields:
+              table.fields?.map((field: any) => ({
+                id: field.id,
+                name: field.name,
+                database_type: field.database_type,
+              })) || [],
+          })) || [],
+      };
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(filteredData, null, 2),
+          },
+        ],
+      };
+    },
+  },
+];
@@ -0,0 +1,277 @@
+/**
+ * 导出工具
+ * 将卡片和查询结果导出为文件，导出和导入仪表板包。
+ */
+
+import { z } from "zod";
+import { buildCardParameters } from "../cardParameters.js";
+import {
+  DashboardBundle,
+  exportDashboardBundle,
+  importDashboardBundle,
+} from "../dashboardBundle.js";
+import { ErrorCode, McpError } from "../errors.js";
+import {
+  EXPORT_FORMATS,
+  parseExportFormat,
+  readExportFile,
+  writeExportFile,
+} from "../exports.js";
+import { latestRevisionId } from "../revisions.js";
+import { describeZodError, MetabaseTool } from "./registry.js";
+import {
+  CARD_PARAMETERS,
+  DASHBOARD_BUNDLE,
+  id,
+  NATIVE_QUERY_SHAPE,
+  object,
+  objects,
+} from "./schemas.js";
+import { buildNativeQuery, exportResponse } from "./shared.js";
+
+export const EXPORT_TOOLS: MetabaseTool[] = [
+  {
+    name: "export_card",
+    description:
+      "Export the full result of a Metabase question/card to a CSV, XLSX or JSON file in the server's export directory. Returns the file path, size, row count and a resource link instead of the data.",
+    schema: z.object({
+      card_id: id("ID of the card/question to export"),
+      format: z.enum(EXPORT_FORMATS).describe("File format"),
+      parameters: CARD_PARAMETERS.optional().describe(
+        "Optional filter values, as a map of parameter or template tag name to value (see execute_card) or as Metabase {type, target, value} objects",
+      ),
+      file_name: z
+        .string()
+        .optional()
+        .describe(
+          "Optional file name (default: card-<id>-<timestamp>.<format>)",
+        ),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client, settings }) {
+      const { card_id, file_name } = args;
+      const format = parseExportFormat(args.format);
+
+      let parameters = args.parameters || [];
+      if (!Array.isArray(parameters) && Object.keys(parameters).length) {
+        const cardResponse = await client.axiosInstance.get(
+          `/api/card/${card_id}`,
+        );
+        parameters = buildCardParameters(cardResponse.data, parameters);
+      }
+
+      const response = await client.axiosInstance.post(
+        `/api/card/${card_id}/query/${format}`,
+        new URLSearchParams({
+          parameters: JSON.stringify(
+            Array.isArray(parameters) ? parameters : [],
+          ),
+        }),
+        {
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          responseType: "arraybuffer",
+        },
+      );
+
+      const file = await writeExportFile(
+        settings.exportDir,
+        `card-${card_id}`,
+        format,
+        Buffer.from(response.data),
+        file_name,
+      );
+      return exportResponse(file);
+    },
+  },
+  {
+    name: "export_query",
+    description:
+      "Export the full result of a SQL query (or MongoDB aggregation pipeline) to a CSV, XLSX or JSON file in the server's export directory. Returns the file path, size, row count and a resource link instead of the data. SQL must be a single SELECT or WITH statement.",
+    schema: z.object({
+      ...NATIVE_QUERY_SHAPE,
+      format: z.enum(EXPORT_FORMATS).describe("File format"),
+      file_name: z
+        .string()
+        .optional()
+        .describe("Optional file name (default: query-<timestamp>.<format>)"),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client, settings }) {
+      const format = parseExportFormat(args.format);
+      // Exports are meant for full result sets, so no row limit is added
+      const { queryData } = await buildNativeQuery(
+        client,
+        args,
+        0,
+        settings.sqlGuard || settings.readOnly,
+      );
+
+      const response = await client.axiosInstance.post(
+        `/api/dataset/${format}`,
+        new URLSearchParams({ query: JSON.stringify(queryData) }),
+        {
+          headers: {
+            "Content-Type": "application/x-www-form-urlencoded",
+          },
+          responseType: "arraybuffer",
+        },
+      );
+
+      const file = await writeExportFile(
+        settings.exportDir,
+        "query",
+        format,
+        Buffer.from(response.data),
+        args.file_name,
+      );
+      return exportResponse(file);
+    },
+  },
+  {
+    name: "export_dashboard",
+    description:
+      "Export a dashboard as a self-contained JSON bundle for promoting it to another Metabase instance: tabs, filters, card layout, the definitions of all referenced cards (including cards they build on), parameter mappings and the names behind every database, table and field ID. Pass the bundle (or the saved file name) to import_dashboard.",
+    schema: z.object({
+      dashboard_id: id("ID of the dashboard to export"),
+      save_to_file: z
+        .boolean()
+        .optional()
+        .describe(
+          "Write the bundle to the server's export directory and return its file name instead of the bundle itself (default: false)",
+        ),
+      file_name: z
+        .string()
+        .optional()
+        .describe(
+          "Optional file name when save_to_file is true (default: dashboard-<id>-<timestamp>.json)",
+        ),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client, settings }) {
+      const { dashboard_id, save_to_file = false, file_name } = args;
+
+      const bundle = await exportDashboardBundle(
+        client.axiosInstance,
+        client.url,
+        dashboard_id,
+      );
+
+      if (save_to_file) {
+        const file = await writeExportFile(
+          settings.exportDir,
+          `dashboard-${dashboard_id}`,
+          "json",
+          Buffer.from(JSON.stringify(bundle, null, 2)),
+          file_name,
+        );
+        return exportResponse(file);
+      }
+
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(bundle, null, 2),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "import_dashboard",
+    description:
+      "Recreate a dashboard from an export_dashboard bundle. Databases, tables and fields are remapped to the target instance by name, cards are recreated in the target collection and card IDs in filter mappings are rewritten. Returns the new dashboard plus every reference that could not be resolved; cards with unresolved references are skipped.",
+    schema: z.object({
+      bundle: object("Bundle returned by export_dashboard").optional(),
+      bundle_file: z
+        .string()
+        .optional()
+        .describe(
+          "Name of a bundle file in the server's export directory (alternative to bundle)",
+        ),
+      collection_id: id(
+        "Collection to create the dashboard and its cards in (default: root collection)",
+      ).optional(),
+      name: z
+        .string()
+        .optional()
+        .describe("Name for the new dashboard (default: the exported name)"),
+      database_mapping: z
+        .record(z.number().int().positive())
+        .optional()
+        .describe(
+          "Optional map of source database name or ID to target database ID, for databases that are named differently in the target instance",
+        ),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    async handler(args, { client, settings }) {
+      const { bundle_file, collection_id, name, database_mapping } = args;
+      let bundle: DashboardBundle | undefined = args.bundle;
+      if (!bundle && bundle_file) {
+        const data = await readExportFile(settings.exportDir, bundle_file);
+        try {
+          bundle = JSON.parse(data.toString("utf8"));
+        } catch {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `${bundle_file} is not valid JSON`,
+          );
+        }
+      }
+      if (!bundle) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          "Either bundle or bundle_file is required for import_dashboard",
+        );
+      }
+      // Check the whole bundle before anything is created in the target instance
+      const checked = z
+        .object({ bundle: DASHBOARD_BUNDLE })
+        .safeParse({ bundle });
+      if (!checked.success) {
+        throw new McpError(
+          ErrorCode.InvalidParams,
+          `Invalid dashboard bundle${bundle_file ? ` in ${bundle_file}` : ""}:\n${describeZodError(checked.error)}`,
+        );
+      }
+
+      const result = await importDashboardBundle(client.axiosInstance, bundle, {
+        collection_id,
+        name,
+        database_mapping,
+      });
+
+      const dashboardLink = `${client.url}/dashboard/${result.dashboard_id}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                ...result,
+                revision_id: await latestRevisionId(
+                  client.axiosInstance,
+                  "dashboard",
+                  result.dashboard_id,
+                ),
+                _link: dashboardLink,
+                _message:
+                  result.unresolved.length === 0
+                    ? `Dashboard imported successfully! View it at: ${dashboardLink}`
+                    : `Dashboard imported with ${result.unresolved.length} unresolved reference(s). Review it at: ${dashboardLink}`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+];
@@ -0,0 +1,41 @@
+/**
+ * 内置工具
+ * 按 tools/list 中的顺序汇总各模块的工具；自定义工具见 plugins.ts。
+ */
+
+import { CARD_TOOLS } from "./cards.js";
+import { COLLECTION_TOOLS } from "./collections.js";
+import { DASHBOARD_TOOLS } from "./dashboards.js";
+import { DASHCARD_TOOLS } from "./dashcards.js";
+import { DATABASE_TOOLS } from "./databases.js";
+import { EXPORT_TOOLS } from "./exports.js";
+import { INSTANCE_TOOLS } from "./instances.js";
+import { QUERY_TOOLS } from "./queries.js";
+import { MetabaseTool } from "./registry.js";
+import { REVISION_TOOLS } from "./revisions.js";
+import { SEARCH_TOOLS } from "./search.js";
+
+export const BUILTIN_TOOLS: MetabaseTool[] = [
+  ...INSTANCE_TOOLS,
+  ...SEARCH_TOOLS,
+  ...COLLECTION_TOOLS,
+  ...DATABASE_TOOLS,
+  ...CARD_TOOLS,
+  ...DASHBOARD_TOOLS,
+  ...DASHCARD_TOOLS,
+  ...QUERY_TOOLS,
+  ...EXPORT_TOOLS,
+  ...REVISION_TOOLS,
+];
+
+export {
+  isAvailableInReadOnlyMode,
+  isReadOnlyTool,
+  MetabaseTool,
+  parseToolArguments,
+  ToolContext,
+  ToolRegistry,
+  ToolSettings,
+  toolInputSchema,
+} from "./registry.js";
+export { loadToolPlugins } from "./plugins.js";
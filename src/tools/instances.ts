@@ -0,0 +1,28 @@
+/**
+ * 实例工具
+ * 列出配置的 Metabase 实例；不接受 instance 参数。
+ */
+
+import { z } from "zod";
+import { MetabaseTool } from "./registry.js";
+
+export const INSTANCE_TOOLS: MetabaseTool[] = [
+  {
+    name: "list_instances",
+    description:
+      "List the configured Metabase instances and whether each one authenticated successfully",
+    schema: z.object({}),
+    annotations: { readOnlyHint: true },
+    instanceArgument: false,
+    async handler(_args, { connections }) {
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(await connections.describe(), null, 2),
+          },
+        ],
+      };
+    },
+  },
+];
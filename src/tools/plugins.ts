@@ -0,0 +1,101 @@
+/**
+ * 自定义工具插件
+ * 启动时从目录（METABASE_TOOL_DIR）中的 .js / .mjs / .cjs 文件和 npm 包（METABASE_TOOL_PACKAGES）加载额外工具。
+ * 模块默认导出一个工具或工具数组，也可以导出名为 tools 的数组；工具结构见 registry.ts 中的 MetabaseTool。
+ */
+
+import { readdir } from "node:fs/promises";
+import { createRequire } from "node:module";
+import path from "node:path";
+import { pathToFileURL } from "node:url";
+import { MetabaseTool, ToolRegistry } from "./registry.js";
+
+export interface ToolPluginOptions {
+  // 工具模块所在目录（不含子目录）
+  dir?: string;
+  // npm 包名称
+  packages: string[];
+}
+
+const MODULE_EXTENSIONS = new Set([".js", ".mjs", ".cjs"]);
+
+/**
+ * 包优先从当前工作目录解析，找不到时交给 import() 从服务器自身的依赖中解析
+ */
+function resolvePackage(name: string): string {
+  try {
+    const require = createRequire(path.join(process.cwd(), "package.json"));
+    return pathToFileURL(require.resolve(name)).href;
+  } catch {
+    return name;
+  }
+}
+
+function exportedTools(module: any, source: string): MetabaseTool[] {
+  const exported = module.tools ?? module.default?.tools ?? module.default;
+  if (!exported) {
+    throw new Error(
+      `Tool plugin ${source} has no default export or "tools" export`,
+    );
+  }
+  return Array.isArray(exported) ? exported : [exported];
+}
+
+async function loadModule(
+  registry: ToolRegistry,
+  specifier: string,
+  source: string,
+): Promise<string[]> {
+  let module: any;
+  try {
+    module = await import(specifier);
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    throw new Error(`Failed to load tool plugin ${source}: ${message}`);
+  }
+  const tools = exportedTools(module, source);
+  for (const tool of tools) {
+    registry.register(tool, source);
+  }
+  return tools.map((tool) => tool.name);
+}
+
+/**
+ * 加载插件中的工具并注册，返回新注册的工具名称；模块无法加载或工具重名时抛出错误
+ */
+export async function loadToolPlugins(
+  registry: ToolRegistry,
+  options: ToolPluginOptions,
+): Promise<string[]> {
+  const loaded: string[] = [];
+
+  if (options.dir) {
+    const dir = path.resolve(options.dir);
+    let files: string[];
+    try {
+      files = await readdir(dir);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      throw new Error(`Cannot read tool directory ${dir}: ${message}`);
+    }
+    for (const file of files.sort()) {
+      if (!MODULE_EXTENSIONS.has(path.extname(file))) continue;
+      const filePath = path.join(dir, file);
+      loaded.push(
+        ...(await loadModule(registry, pathToFileURL(filePath).href, filePath)),
+      );
+    }
+  }
+
+  for (const name of options.packages) {
+    loaded.push(
+      ...(await loadModule(
+        registry,
+        resolvePackage(name),
+        `package "${name}"`,
+      )),
+    );
+  }
+
+  return loaded;
+}
@@ -0,0 +1,264 @@
+/**
+ * 查询工具
+ * 执行原生 SQL / MongoDB 查询和结构化查询，推断模板变量，改写 MongoDB 日期筛选。
+ */
+
+import { z } from "zod";
+import { ErrorCode, McpError } from "../errors.js";
+import { compileStructuredQuery, StructuredQuery } from "../mbql.js";
+import {
+  MongoPipelineError,
+  rewriteDateRangeFilter,
+} from "../mongoPipeline.js";
+import { parseOutputFormat } from "../resultFormat.js";
+import { ResultPage } from "../resultPages.js";
+import {
+  buildTemplateTags,
+  loadSnippetIds,
+  parseTemplateReferences,
+} from "../templateTags.js";
+import { MetabaseTool } from "./registry.js";
+import {
+  display,
+  id,
+  NATIVE_QUERY_SHAPE,
+  object,
+  pagedQuerySchema,
+  STRUCTURED_QUERY_SHAPE,
+} from "./schemas.js";
+import {
+  buildNativeQuery,
+  pageResponse,
+  readPageOptions,
+  toQueryResult,
+} from "./shared.js";
+
+export const QUERY_TOOLS: MetabaseTool[] = [
+  {
+    name: "execute_query",
+    description:
+      "Execute a SQL query against a Metabase database, or MongoDB aggregation pipeline against MongoDB databases. SQL must be a single SELECT or WITH statement; a row LIMIT is added when none is present. MongoDB pipelines are parsed before running (template tags must not be quoted), the collection is checked against the database's tables, and a $limit stage is added when none is present.",
+    schema: pagedQuerySchema(NATIVE_QUERY_SHAPE, ["database_id", "query"]),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client, pager, settings }) {
+      if (args.page_token) {
+        return pageResponse(
+          pager.continue(args.page_token, readPageOptions(args, true)),
+          parseOutputFormat(args.output_format),
+        );
+      }
+
+      const { queryData, limitApplied } = await buildNativeQuery(
+        client,
+        args,
+        settings.sqlGuard ? settings.sqlMaxRows : 0,
+        // Read-only mode never lets a write statement through, guard or not
+        settings.sqlGuard || settings.readOnly,
+      );
+
+      const response = await client.axiosInstance.post(
+        "/api/dataset",
+        queryData,
+      );
+
+      const page: ResultPage & { limit_applied?: number } = pager.page(
+        toQueryResult(response.data),
+        readPageOptions(args),
+      );
+      if (limitApplied !== null) {
+        page.limit_applied = limitApplied;
+      }
+
+      return pageResponse(page, parseOutputFormat(args.output_format));
+    },
+  },
+  {
+    name: "run_structured_query",
+    description:
+      "Run a query built from a compact JSON spec instead of SQL: source table, filters, aggregations, breakouts with temporal bucketing, order-by, limit and joins, with tables and fields referred to by name. The spec is compiled to Metabase's query language (MBQL), so it works on every database engine and the result supports drill-through when saved. Optionally saves the query as a card.",
+    schema: pagedQuerySchema(
+      {
+        ...STRUCTURED_QUERY_SHAPE,
+        save_as: z
+          .object({
+            name: z.string().min(1),
+            display: display("Display type (default: table)").optional(),
+            collection_id: z.number().int().positive().optional(),
+            description: z.string().optional(),
+          })
+          .strict()
+          .optional()
+          .describe(
+            "Also save the query as a card: {name, display (default: table), collection_id, description}",
+          ),
+      },
+      ["source_table"],
+    ),
+    // save_as creates a card; read-only mode refuses it but keeps the query
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: false,
+      idempotentHint: false,
+    },
+    availableInReadOnlyMode: true,
+    async handler(args, { client, pager, settings }) {
+      if (args.page_token) {
+        return pageResponse(
+          pager.continue(args.page_token, readPageOptions(args, true)),
+          parseOutputFormat(args.output_format),
+        );
+      }
+
+      const datasetQuery = await compileStructuredQuery(
+        client.axiosInstance,
+        args as StructuredQuery,
+      );
+
+      if (args.save_as && settings.readOnly) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          "save_as is disabled because the server is running in read-only mode (METABASE_READ_ONLY=true)",
+        );
+      }
+
+      const response = await client.axiosInstance.post(
+        "/api/dataset",
+        datasetQuery,
+      );
+
+      // Only save queries that ran, so a failing query leaves no broken card
+      let savedCard: Record<string, unknown> | undefined;
+      if (args.save_as && response.data.status !== "failed") {
+        const { name, display = "table", ...cardFields } = args.save_as;
+        const cardResponse = await client.axiosInstance.post("/api/card", {
+          name,
+          display,
+          dataset_query: datasetQuery,
+          visualization_settings: {},
+          ...cardFields,
+        });
+        savedCard = {
+          id: cardResponse.data.id,
+          _link: `${client.url}/question/${cardResponse.data.id}`,
+        };
+      }
+
+      return pageResponse(
+        {
+          ...pager.page(toQueryResult(response.data), readPageOptions(args)),
+          ...(savedCard ? { saved_card: savedCard } : {}),
+          ...(args.save_as && !savedCard
+            ? { _message: "The query failed, so no card was saved." }
+            : {}),
+        },
+        parseOutputFormat(args.output_format),
+      );
+    },
+  },
+  {
+    name: "infer_template_tags",
+    description:
+      "Parse a native SQL or MongoDB query for {{variables}}, [[optional clauses]], {{snippet: name}} and {{#123-card}} references and return the template-tags object Metabase expects (type, display name, default, required). When template_tags is given it is validated instead, reporting tags that are used but not declared or declared but not used. create_card and update_card run the same checks automatically.",
+    schema: z.object({
+      query: z.string().describe("Native SQL query or MongoDB pipeline text"),
+      template_tags: object(
+        "Optional existing template-tags object to validate and complete",
+      ).optional(),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const { query, template_tags } = args;
+      const parsed = parseTemplateReferences(query);
+      const result = buildTemplateTags(
+        parsed.references,
+        template_tags,
+        await loadSnippetIds(client.axiosInstance, parsed.references),
+      );
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                "template-tags": result.tags,
+                generated: result.generated,
+                issues: [...parsed.issues, ...result.issues],
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+  {
+    name: "rewrite_mongo_date_filter",
+    description:
+      'Rewrite a date-range filter in a MongoDB aggregation pipeline into the form Metabase dashboard date filters can substitute: the field is converted to an ISO string with $dateToString and compared against unquoted template tags (e.g. {"$gte": {{date_start}}}). Returns the rewritten pipeline and the template-tags to save with it. Both tags are required because the pipeline cannot run without them; the original range bounds become the tag defaults. Nothing is saved.',
+    schema: z.object({
+      query: z.string().describe("MongoDB aggregation pipeline as JSON text"),
+      field: z
+        .string()
+        .min(1)
+        .describe(
+          "Date field to filter on, e.g. createdAt. An existing $gte/$gt/$lt/$lte range on it in a $match stage is replaced.",
+        ),
+      start_tag: z
+        .string()
+        .default("date_start")
+        .describe("Template tag for the range start"),
+      end_tag: z
+        .string()
+        .default("date_end")
+        .describe("Template tag for the range end"),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args) {
+      const { query, field } = args;
+      let rewrite;
+      try {
+        rewrite = rewriteDateRangeFilter(
+          query,
+          field,
+          args.start_tag || "date_start",
+          args.end_tag || "date_end",
+        );
+      } catch (error) {
+        if (error instanceof MongoPipelineError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
+      }
+      const withoutDefault = Object.values(rewrite.template_tags)
+        .filter((tag) => tag.default === undefined)
+        .map((tag) => tag.name);
+      const messages = [
+        rewrite.replaced
+          ? `Replaced the ${field} range in the $match stage with template tags.`
+          : `No $gte/$gt/$lt/$lte range on ${field} was found; the template tag filter was added at the start of the pipeline.`,
+      ];
+      if (withoutDefault.length > 0) {
+        messages.push(
+          `${withoutDefault.join(" and ")} ${withoutDefault.length > 1 ? "have" : "has"} no default, so the card only runs once a value is given; add a default to run it on its own.`,
+        );
+      }
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                query: rewrite.query,
+                "template-tags": rewrite.template_tags,
+                _message: messages.join(" "),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+];
@@ -0,0 +1,250 @@
+/**
+ * 工具注册表
+ * 每个工具是一个包含名称、说明、zod schema、注解（annotations）和处理函数的对象；
+ * 内置工具和插件工具注册到同一个注册表，名称冲突时启动失败。
+ * tools/list 中的 JSON Schema 由 schema 生成，调用前用它严格解析参数。
+ */
+
+import {
+  CallToolResult,
+  ToolAnnotations,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { zodToJsonSchema } from "zod-to-json-schema";
+import { ErrorCode, McpError } from "../errors.js";
+import { MetabaseConnections } from "../instances.js";
+import { MetabaseClient } from "../metabaseClient.js";
+import { ResultPager } from "../resultPages.js";
+
+// 服务器级配置，由环境变量决定
+export interface ToolSettings {
+  // METABASE_READ_ONLY
+  readOnly: boolean;
+  // METABASE_SQL_GUARD
+  sqlGuard: boolean;
+  // METABASE_SQL_MAX_ROWS（0 表示不追加行数限制）
+  sqlMaxRows: number;
+  // METABASE_EXPORT_DIR
+  exportDir: string;
+}
+
+export interface ToolContext {
+  // instance 参数选择的 Metabase 实例的客户端，调用处理函数前已完成认证
+  readonly client: MetabaseClient;
+  connections: MetabaseConnections;
+  // 当前会话的查询结果分页缓存
+  pager: ResultPager;
+  settings: ToolSettings;
+}
+
+// 工具参数的 schema：zod 对象，或用 superRefine 添加了跨参数校验的 zod 对象
+export type ToolSchema = z.AnyZodObject | z.ZodEffects<z.AnyZodObject>;
+
+export interface MetabaseTool {
+  name: string;
+  description: string;
+  // 参数对象的 schema，注册时转为 strict（拒绝未知参数）
+  schema: ToolSchema;
+  // readOnlyHint 不为 true 的工具视为会修改 Metabase 内容，只读模式下不可用
+  annotations?: ToolAnnotations;
+  // 为 true 时只读模式下仍可用，由处理函数拒绝会写入的参数（如 run_structured_query 的 save_as）
+  availableInReadOnlyMode?: boolean;
+  // 为 false 时不添加 instance 参数，处理函数也不使用 client（如 list_instances）
+  instanceArgument?: boolean;
+  handler(
+    args: Record<string, any>,
+    context: ToolContext,
+  ): Promise<CallToolResult>;
+}
+
+// MCP 工具名称的允许字符
+const TOOL_NAME = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * 工具是否只读（不修改 Metabase 内容）
+ */
+export function isReadOnlyTool(tool: MetabaseTool): boolean {
+  return tool.annotations?.readOnlyHint === true;
+}
+
+/**
+ * schema 中的参数对象（去掉 superRefine 等包装）
+ */
+function objectSchema(schema: any): any {
+  return schema?._def?.typeName === "ZodEffects"
+    ? objectSchema(schema._def.schema)
+    : schema;
+}
+
+/**
+ * 拒绝未知参数；superRefine 包装保留在外层
+ */
+function strictSchema(schema: ToolSchema): ToolSchema {
+  if (schema._def.typeName === "ZodEffects") {
+    const effects = schema as z.ZodEffects<z.AnyZodObject>;
+    return new z.ZodEffects({
+      ...effects._def,
+      schema: strictSchema(effects._def.schema) as z.AnyZodObject,
+    });
+  }
+  return (schema as z.AnyZodObject).strict();
+}
+
+/**
+ * 只读模式下工具是否可用
+ */
+export function isAvailableInReadOnlyMode(tool: MetabaseTool): boolean {
+  return isReadOnlyTool(tool) || tool.availableInReadOnlyMode === true;
+}
+
+/**
+ * 检查工具模块的结构，插件导出的对象不一定符合类型声明
+ */
+function checkTool(tool: any, source: string): void {
+  const label = `Tool ${typeof tool?.name === "string" ? `"${tool.name}" ` : ""}from ${source}`;
+  if (typeof tool?.name !== "string" || !TOOL_NAME.test(tool.name)) {
+    throw new Error(
+      `${label} needs a name of 1-64 letters, digits, "_" or "-"`,
+    );
+  }
+  if (typeof tool.description !== "string") {
+    throw new Error(`${label} needs a description`);
+  }
+  const shape = objectSchema(tool.schema);
+  if (
+    typeof tool.schema?.safeParse !== "function" ||
+    typeof shape?.strict !== "function"
+  ) {
+    throw new Error(`${label} needs a zod object schema (z.object({...}))`);
+  }
+  if (tool.instanceArgument !== false && "instance" in shape.shape) {
+    throw new Error(
+      `${label} declares an "instance" argument, which is reserved for choosing the Metabase instance`,
+    );
+  }
+  if (typeof tool.handler !== "function") {
+    throw new Error(`${label} needs a handler function`);
+  }
+}
+
+export class ToolRegistry {
+  // 按名称索引，保留注册顺序；source 用于冲突时的错误信息
+  private tools = new Map<string, { tool: MetabaseTool; source: string }>();
+
+  /**
+   * 注册工具；与已注册的工具重名时抛出错误
+   */
+  register(tool: MetabaseTool, source = "built-in tools"): void {
+    checkTool(tool, source);
+    const existing = this.tools.get(tool.name);
+    if (existing) {
+      throw new Error(
+        `Tool "${tool.name}" from ${source} conflicts with the tool of the same name from ${existing.source}`,
+      );
+    }
+    this.tools.set(tool.name, {
+      tool: { ...tool, schema: strictSchema(tool.schema) },
+      source,
+    });
+  }
+
+  get(name: string): MetabaseTool | undefined {
+    return this.tools.get(name)?.tool;
+  }
+
+  list(): MetabaseTool[] {
+    return [...this.tools.values()].map((entry) => entry.tool);
+  }
+}
+
+/**
+ * 由 zod schema 生成 tools/list 中的 inputSchema
+ */
+export function toolInputSchema(tool: MetabaseTool): Record<string, any> {
+  const { $schema, ...schema } = zodToJsonSchema(tool.schema, {
+    $refStrategy: "none",
+  }) as Record<string, any>;
+  return schema;
+}
+
+function formatPath(path: (string | number)[]): string {
+  if (path.length === 0) {
+    return "(arguments)";
+  }
+  return path
+    .map((part, index) =>
+      typeof part === "number" ? `[${part}]` : index === 0 ? part : `.${part}`,
+    )
+    .join("");
+}
+
+/**
+ * 单个校验问题的说明，尽量给出期望的类型
+ */
+function describeIssue(issue: z.ZodIssue): string[] {
+  const path = formatPath(issue.path);
+  switch (issue.code) {
+    case "invalid_type":
+      return [
+        issue.received === "undefined"
+          ? `${path}: required (expected ${issue.expected})`
+          : `${path}: expected ${issue.expected}, received ${issue.received}`,
+      ];
+    case "unrecognized_keys":
+      return issue.keys.map(
+        (key) => `${formatPath([...issue.path, key])}: unknown argument`,
+      );
+    case "invalid_union": {
+      // List the alternatives instead of zod's generic "Invalid input"
+      const expected = issue.unionErrors.flatMap((error) =>
+        error.issues
+          .filter((inner) => inner.path.length === issue.path.length)
+          .map((inner) =>
+            inner.code === "invalid_type"
+              ? inner.expected
+              : inner.code === "invalid_literal"
+                ? JSON.stringify(inner.expected)
+                : null,
+          ),
+      );
+      const nested = issue.unionErrors
+        .flatMap((error) => error.issues)
+        .filter((inner) => inner.path.length > issue.path.length);
+      if (expected.length > 0 && expected.every(Boolean)) {
+        return [`${path}: expected ${[...new Set(expected)].join(" or ")}`];
+      }
+      return nested.length > 0
+        ? nested.flatMap(describeIssue)
+        : [`${path}: ${issue.message}`];
+    }
+    default:
+      return [`${path}: ${issue.message}`];
+  }
+}
+
+/**
+ * zod 校验错误的说明，每个问题一行
+ */
+export function describeZodError(error: z.ZodError): string {
+  return error.issues
+    .flatMap(describeIssue)
+    .map((problem) => `- ${problem}`)
+    .join("\n");
+}
+
+/**
+ * 按工具的 schema 严格解析参数，失败时抛出列出所有问题的 InvalidParams
+ */
+export function parseToolArguments(
+  tool: MetabaseTool,
+  args: Record<string, unknown>,
+): Record<string, any> {
+  const result = tool.schema.safeParse(args);
+  if (result.success) {
+    return result.data;
+  }
+  throw new McpError(
+    ErrorCode.InvalidParams,
+    `Invalid arguments for ${tool.name}:\n${describeZodError(result.error)}`,
+  );
+}
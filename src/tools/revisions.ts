@@ -0,0 +1,95 @@
+/**
+ * 修订历史工具
+ * 查看卡片和仪表板的修订记录并恢复到指定修订（见 ../revisions.ts）。
+ */
+
+import { z } from "zod";
+import {
+  listRevisions,
+  revertRevision,
+  REVISION_ENTITIES,
+} from "../revisions.js";
+import { MetabaseTool } from "./registry.js";
+import { id } from "./schemas.js";
+
+export const REVISION_TOOLS: MetabaseTool[] = [
+  {
+    name: "get_revisions",
+    description:
+      "Get the revision history of a card or dashboard, newest first: who changed it, when, and which fields changed (before and after). Use revert_revision to restore one.",
+    schema: z.object({
+      entity: z.enum(REVISION_ENTITIES).describe("Kind of item"),
+      id: id("ID of the card or dashboard"),
+      limit: z
+        .number()
+        .int()
+        .positive()
+        .default(10)
+        .describe("Maximum number of revisions to return"),
+      full: z
+        .boolean()
+        .default(false)
+        .describe(
+          "Return long values such as dataset_query in full instead of truncating them",
+        ),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const { entity, id, limit, full } = args;
+      const revisions = await listRevisions(
+        client.axiosInstance,
+        entity,
+        id,
+        limit,
+        full,
+      );
+      return {
+        content: [{ type: "text", text: JSON.stringify(revisions, null, 2) }],
+      };
+    },
+  },
+  {
+    name: "revert_revision",
+    description:
+      "Restore a card or dashboard to a revision from get_revisions. The revert is recorded as a new revision, so it can be undone the same way.",
+    schema: z.object({
+      entity: z.enum(REVISION_ENTITIES).describe("Kind of item"),
+      id: id("ID of the card or dashboard"),
+      revision_id: id("Revision to restore"),
+    }),
+    annotations: {
+      readOnlyHint: false,
+      destructiveHint: true,
+      idempotentHint: false,
+    },
+    async handler(args, { client }) {
+      const { entity, id, revision_id } = args;
+      const newRevisionId = await revertRevision(
+        client.axiosInstance,
+        entity,
+        id,
+        revision_id,
+      );
+      const link = `${client.url}/${entity === "card" ? "question" : "dashboard"}/${id}`;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                entity,
+                id,
+                reverted_to: revision_id,
+                revision_id: newRevisionId,
+                _link: link,
+                _message: `${entity === "card" ? "Card" : "Dashboard"} ${id} restored to revision ${revision_id}.`,
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+];
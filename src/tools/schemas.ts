@@ -0,0 +1,292 @@
+/**
+ * 工具参数的公共 schema
+ * 内置工具共用的 zod 片段：ID、网格位置和尺寸、可视化类型、结果分页、结构化查询和原生查询参数，以及仪表板包的结构。
+ */
+
+import { z } from "zod";
+import { BUNDLE_FORMAT, BUNDLE_VERSION } from "../dashboardBundle.js";
+import { GRID_COLUMNS } from "../dashboardLayout.js";
+import { TEMPORAL_UNITS } from "../mbql.js";
+import { DEFAULT_OUTPUT_FORMAT, OUTPUT_FORMATS } from "../resultFormat.js";
+import { DEFAULT_PAGE_SIZE, MAX_PAGE_SIZE } from "../resultPages.js";
+
+// 卡片的可视化类型
+export const CARD_DISPLAYS = [
+  "table",
+  "bar",
+  "line",
+  "area",
+  "row",
+  "combo",
+  "pie",
+  "scalar",
+  "smartscalar",
+  "progress",
+  "gauge",
+  "funnel",
+  "scatter",
+  "waterfall",
+  "map",
+  "pivot",
+  "object",
+  "sankey",
+] as const;
+
+export const id = (description: string) =>
+  z.number().int().positive().describe(description);
+
+// Free-form Metabase objects (queries, settings, parameters) pass through as-is
+export const object = (description: string) =>
+  z.record(z.unknown()).describe(description);
+
+export const objects = (description: string) =>
+  z.array(z.record(z.unknown())).describe(description);
+
+export const gridPosition = (description: string) =>
+  z.number().int().nonnegative().describe(description);
+
+export const gridWidth = (description: string) =>
+  z.number().int().min(1).max(GRID_COLUMNS).describe(description);
+
+export const gridHeight = (description: string) =>
+  z.number().int().positive().describe(description);
+
+export const display = (description: string) =>
+  z.enum(CARD_DISPLAYS).describe(description);
+
+// execute_card / execute_query 共用的分页和输出格式参数
+export const RESULT_PAGING_SHAPE = {
+  max_rows: z
+    .number()
+    .int()
+    .min(1)
+    .max(MAX_PAGE_SIZE)
+    .optional()
+    .describe(
+      `Maximum number of rows to return (default: ${DEFAULT_PAGE_SIZE}, max: ${MAX_PAGE_SIZE})`,
+    ),
+  offset: z
+    .number()
+    .int()
+    .nonnegative()
+    .optional()
+    .describe("Number of rows to skip (default: 0)"),
+  columns: z
+    .array(z.string())
+    .optional()
+    .describe("Only return these columns (by column name or display name)"),
+  output_format: z
+    .enum(OUTPUT_FORMATS)
+    .optional()
+    .describe(
+      `Result format: markdown table, csv, jsonl (one object per row keyed by column name) or json_raw (Metabase's raw cols/rows structure). Column names, types and units are summarized once in a header. Default: ${DEFAULT_OUTPUT_FORMAT}`,
+    ),
+  page_token: z
+    .string()
+    .optional()
+    .describe(
+      "Continuation token from a previous truncated result. Returns the next page from the cached result without re-running the query; other query arguments are ignored.",
+    ),
+};
+
+/**
+ * 支持续页的查询工具的参数：required 中的参数只在没有 page_token 时必填，
+ * 续页调用只需传 page_token（以及可选的分页和输出格式参数）
+ */
+export function pagedQuerySchema(shape: z.ZodRawShape, required: string[]) {
+  const fields = Object.fromEntries(
+    Object.entries(shape).map(([key, schema]) => [
+      key,
+      required.includes(key) ? schema.optional() : schema,
+    ]),
+  );
+  return z
+    .object({ ...fields, ...RESULT_PAGING_SHAPE })
+    .superRefine((args: Record<string, unknown>, ctx) => {
+      if (args.page_token !== undefined) return;
+      for (const key of required) {
+        if (args[key] === undefined) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            path: [key],
+            message: "required unless page_token is given",
+          });
+        }
+      }
+    });
+}
+
+// 结构化查询的输入结构（run_structured_query 与 create_card 共用）
+export const STRUCTURED_QUERY_SHAPE = {
+  database_id: id(
+    "ID of the database (optional when source_table is a table ID)",
+  ).optional(),
+  source_table: z
+    .union([z.string().min(1), z.number().int().positive()])
+    .describe('Table name (e.g. "orders" or "public.orders") or table ID'),
+  joins: z
+    .array(
+      z
+        .object({
+          table: z.union([z.string().min(1), z.number().int().positive()]),
+          on: z.tuple([z.string(), z.string()]),
+          alias: z.string().optional(),
+          strategy: z
+            .enum(["left-join", "inner-join", "right-join", "full-join"])
+            .optional(),
+        })
+        .strict(),
+    )
+    .optional()
+    .describe(
+      'Tables to join, e.g. [{"table": "people", "on": ["user_id", "id"], "alias": "People"}]. Refer to joined fields as "<alias>.<field>". strategy: left-join (default), inner-join, right-join or full-join.',
+    ),
+  filters: z
+    .array(z.array(z.unknown()))
+    .optional()
+    .describe(
+      'Filters combined with AND, e.g. [["=", "status", "shipped"], [">", "total", 100], ["between", "created_at", "2024-01-01", "2024-12-31"], ["time-interval", "created_at", -30, "day"], ["in", "state", ["CA", "NY"]], ["or", [...], [...]]]. Also: !=, <, <=, >=, is-null, not-null, is-empty, not-empty, contains, does-not-contain, starts-with, ends-with, not.',
+    ),
+  aggregations: z
+    .array(z.union([z.string(), z.array(z.unknown())]))
+    .optional()
+    .describe(
+      'Metrics, e.g. ["count", ["sum", "total"], ["distinct", "user_id"]]. Also: avg, min, max, cum-sum, cum-count, stddev, median.',
+    ),
+  breakouts: z
+    .array(
+      z.union([
+        z.string(),
+        z
+          .object({
+            field: z.string(),
+            unit: z.enum(TEMPORAL_UNITS).optional(),
+          })
+          .strict(),
+      ]),
+    )
+    .optional()
+    .describe(
+      `Group-by fields, e.g. ["state", {"field": "created_at", "unit": "month"}]. Temporal units: ${TEMPORAL_UNITS.join(", ")}`,
+    ),
+  order_by: z
+    .array(
+      z.union([
+        z.string(),
+        z
+          .object({
+            field: z.string().optional(),
+            aggregation: z.number().int().nonnegative().optional(),
+            direction: z.enum(["asc", "desc"]).optional(),
+          })
+          .strict(),
+      ]),
+    )
+    .optional()
+    .describe(
+      'Sort order, e.g. [{"aggregation": 0, "direction": "desc"}, {"field": "created_at"}]',
+    ),
+  limit: z
+    .number()
+    .int()
+    .positive()
+    .optional()
+    .describe("Maximum number of rows the query returns"),
+};
+
+export const NATIVE_QUERY_SHAPE = {
+  database_id: id("ID of the database to query"),
+  query: z
+    .string()
+    .min(1)
+    .describe(
+      "SQL query for SQL databases, or MongoDB aggregation pipeline as JSON string (e.g., '[{\"$limit\": 10}]') for MongoDB databases",
+    ),
+  collection: z
+    .string()
+    .optional()
+    .describe(
+      "MongoDB collection name (required for MongoDB databases, e.g., 'kpj-user-profiles'). Ignored for SQL databases.",
+    ),
+  native_parameters: objects("Optional parameters for the query").optional(),
+};
+
+export const CARD_PARAMETERS = z.union([
+  z.record(z.unknown()),
+  z.array(z.record(z.unknown())),
+]);
+
+export const DRY_RUN = z
+  .boolean()
+  .optional()
+  .describe(
+    "Only return the summary of changes without applying them (default: false)",
+  );
+
+// export_dashboard 生成的仪表板包中 import_dashboard 用到的部分，导入前先校验结构
+const bundleObjects = z.array(z.record(z.unknown()));
+
+export const DASHBOARD_BUNDLE = z.object({
+  format: z.literal(BUNDLE_FORMAT, {
+    errorMap: () => ({
+      message: `expected "${BUNDLE_FORMAT}"; not an export_dashboard bundle`,
+    }),
+  }),
+  version: z
+    .number()
+    .int()
+    .positive()
+    .max(BUNDLE_VERSION, `unsupported bundle version (max ${BUNDLE_VERSION})`),
+  dashboard: z.object({
+    name: z.string(),
+    description: z.string().nullable().optional(),
+    parameters: bundleObjects,
+    tabs: z.array(z.object({ id: z.number().int(), name: z.string() })),
+    width: z.string().optional(),
+    auto_apply_filters: z.boolean().optional(),
+  }),
+  dashcards: z.array(
+    z.object({
+      id: z.number().int(),
+      card_id: z.number().int().nullable(),
+      dashboard_tab_id: z.number().int().nullable(),
+      row: z.number().int().nonnegative(),
+      col: z.number().int().nonnegative(),
+      size_x: z.number().int().positive(),
+      size_y: z.number().int().positive(),
+      series: z.array(z.number().int()),
+      parameter_mappings: bundleObjects,
+      visualization_settings: z.record(z.unknown()),
+    }),
+  ),
+  cards: z.array(
+    z.object({
+      id: z.number().int(),
+      name: z.string(),
+      description: z.string().nullable().optional(),
+      display: z.string(),
+      type: z.string().optional(),
+      dataset_query: z.record(z.unknown()),
+      visualization_settings: z.record(z.unknown()),
+      parameters: bundleObjects.optional(),
+    }),
+  ),
+  references: z.object({
+    databases: z.record(z.object({ name: z.string() })),
+    tables: z.record(
+      z.object({
+        database_id: z.number().int(),
+        schema: z.string().nullable(),
+        name: z.string(),
+      }),
+    ),
+    fields: z.record(
+      z.object({
+        table_id: z.number().int(),
+        name: z.string(),
+        parent_id: z.number().int().nullable(),
+      }),
+    ),
+    snippets: z.record(z.object({ name: z.string() })),
+  }),
+});
@@ -0,0 +1,98 @@
+/**
+ * 搜索工具
+ * 按关键字和条件搜索 Metabase 内容（见 ../search.ts）。
+ */
+
+import { z } from "zod";
+import { SEARCH_MODELS, searchContent } from "../search.js";
+import { MetabaseTool } from "./registry.js";
+import { id } from "./schemas.js";
+
+export const SEARCH_TOOLS: MetabaseTool[] = [
+  {
+    name: "search",
+    description:
+      "Search Metabase content by name and description: questions (card), models (dataset), dashboards, collections, tables, metrics and segments. Returns one compact page of results with type, id, name, collection path and a short description. Use this instead of list_dashboards or list_cards to find a specific item.",
+    schema: z.object({
+      q: z.string().optional().describe("Search text, e.g. 'revenue'"),
+      models: z
+        .array(z.enum(SEARCH_MODELS))
+        .optional()
+        .describe("Only return these kinds of content"),
+      collection_id: id(
+        "Only return content in this collection or its sub-collections",
+      ).optional(),
+      archived: z
+        .boolean()
+        .default(false)
+        .describe("Search archived (trashed) content instead"),
+      created_by: z
+        .union([
+          z.number().int().positive(),
+          z.array(z.number().int().positive()),
+        ])
+        .optional()
+        .describe("Only content created by these user IDs"),
+      last_edited_by: z
+        .union([
+          z.number().int().positive(),
+          z.array(z.number().int().positive()),
+        ])
+        .optional()
+        .describe("Only content last edited by these user IDs"),
+      last_edited_at: z
+        .string()
+        .optional()
+        .describe(
+          "Only content last edited in this period, e.g. 'past30days', 'thisyear' or '2024-01-01~2024-03-31'",
+        ),
+      limit: z
+        .number()
+        .int()
+        .min(1)
+        .max(100)
+        .default(20)
+        .describe("Results per page (max 100)"),
+      offset: z
+        .number()
+        .int()
+        .nonnegative()
+        .default(0)
+        .describe("Number of results to skip"),
+    }),
+    annotations: { readOnlyHint: true },
+    async handler(args, { client }) {
+      const users = (value: unknown) =>
+        value === undefined
+          ? undefined
+          : (Array.isArray(value) ? value : [value]).map(Number);
+      const page = await searchContent(client.axiosInstance, {
+        q: args.q,
+        models: args.models,
+        collection_id: args.collection_id,
+        archived: args.archived,
+        created_by: users(args.created_by),
+        last_edited_by: users(args.last_edited_by),
+        last_edited_at: args.last_edited_at,
+        limit: args.limit,
+        offset: args.offset,
+      });
+      const next = page.offset + page.results.length;
+      return {
+        content: [
+          {
+            type: "text",
+            text: JSON.stringify(
+              {
+                ...page,
+                ...(next < page.total ? { next_offset: next } : {}),
+              },
+              null,
+              2,
+            ),
+          },
+        ],
+      };
+    },
+  },
+];
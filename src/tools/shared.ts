@@ -0,0 +1,203 @@
+/**
+ * 工具处理函数共用的辅助函数
+ * 查询结果分页、导出文件响应、模板变量报告，以及 execute_query / export_query 的原生查询构造。
+ */
+
+import { ErrorCode, McpError } from "../errors.js";
+import { ExportedFile } from "../exports.js";
+import { MetabaseClient } from "../metabaseClient.js";
+import { guardPipeline, MongoPipelineError } from "../mongoPipeline.js";
+import { formatResultPage, OutputFormat } from "../resultFormat.js";
+import { PageOptions, QueryResult, ResultPage } from "../resultPages.js";
+import { dialectForEngine, guardSql, SqlGuardError } from "../sqlGuard.js";
+import { TemplateTagResult } from "../templateTags.js";
+
+/**
+ * 从工具参数中读取分页选项；续页时未指定的选项沿用令牌中的设置
+ */
+export function readPageOptions(
+  args: Record<string, any>,
+  continuation = false,
+): PageOptions {
+  return {
+    maxRows: args.max_rows,
+    offset: continuation ? args.offset : (args.offset ?? 0),
+    columns: args.columns,
+  };
+}
+
+/**
+ * 从 Metabase 查询响应中提取列和行
+ */
+export function toQueryResult(responseData: any): QueryResult {
+  return {
+    status: responseData.status,
+    cols: responseData.data?.cols || [],
+    rows: responseData.data?.rows || [],
+  };
+}
+
+/**
+ * 卡片响应中附带的模板变量生成结果与警告
+ */
+export function templateTagReport(result: TemplateTagResult | undefined) {
+  const report: Record<string, unknown> = {};
+  if (result?.generated.length) {
+    report.template_tags_generated = result.generated;
+  }
+  const warnings = result?.issues.filter(
+    (issue) => issue.severity === "warning",
+  );
+  if (warnings?.length) {
+    report.template_tag_warnings = warnings.map(
+      (issue) => `${issue.tag}: ${issue.message}`,
+    );
+  }
+  return report;
+}
+
+/**
+ * 根据数据库引擎构造 execute_query / export_query 的原生查询
+ * checkStatements 开启时 SQL 查询和 MongoDB 管道会经过安全检查，未指定行数限制时追加 maxRows（0 表示不追加）
+ */
+export async function buildNativeQuery(
+  client: MetabaseClient,
+  args: Record<string, any>,
+  maxRows: number,
+  checkStatements: boolean,
+): Promise<{ queryData: any; limitApplied: number | null }> {
+  const databaseId = args.database_id;
+  const query = args.query;
+  const collectionParam = args.collection;
+  const nativeParameters = args.native_parameters || [];
+
+  // Get database details to check engine type
+  const dbResponse = await client.axiosInstance.get(
+    `/api/database/${databaseId}`,
+  );
+  const dbEngine = dbResponse.data.engine;
+
+  let queryData;
+  // Row limit added by the SQL or pipeline guard, if any
+  let limitApplied: number | null = null;
+
+  if (dbEngine === "mongo") {
+    // MongoDB query format
+    if (!collectionParam) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        "Collection name is required for MongoDB queries",
+      );
+    }
+
+    // Pipelines passed as JSON arrays are accepted as well as text
+    const pipelineText =
+      typeof query === "string" ? query : JSON.stringify(query);
+    let guarded;
+    try {
+      guarded = guardPipeline(pipelineText, {
+        maxRows: checkStatements ? maxRows : 0,
+        readOnly: checkStatements,
+      });
+    } catch (error) {
+      if (error instanceof MongoPipelineError) {
+        throw new McpError(ErrorCode.InvalidParams, error.message);
+      }
+      throw error;
+    }
+    limitApplied = guarded.limitApplied;
+
+    // Collections are synced as tables; skip the check before the first sync
+    const { data: metadata } = await client.axiosInstance.get(
+      `/api/database/${databaseId}/metadata`,
+    );
+    const collections: string[] = (metadata.tables || []).map(
+      (table: any) => table.name,
+    );
+    if (collections.length > 0 && !collections.includes(collectionParam)) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown collection "${collectionParam}" in database ${databaseId}. Collections: ${collections.slice(0, 50).join(", ")}${collections.length > 50 ? ", ..." : ""}`,
+      );
+    }
+
+    queryData = {
+      type: "native",
+      native: {
+        collection: collectionParam,
+        query: guarded.query,
+        template_tags: {},
+      },
+      parameters: nativeParameters,
+      database: databaseId,
+    };
+  } else {
+    let sqlQuery = query;
+    if (checkStatements) {
+      try {
+        const guarded = guardSql(String(query), dialectForEngine(dbEngine), {
+          maxRows,
+        });
+        sqlQuery = guarded.query;
+        limitApplied = guarded.limitApplied;
+      } catch (error) {
+        if (error instanceof SqlGuardError) {
+          throw new McpError(ErrorCode.InvalidParams, error.message);
+        }
+        throw error;
+      }
+    }
+
+    // SQL query format
+    queryData = {
+      type: "native",
+      native: {
+        query: sqlQuery,
+        template_tags: {},
+      },
+      parameters: nativeParameters,
+      database: databaseId,
+    };
+  }
+
+  return { queryData, limitApplied };
+}
+
+/**
+ * 将导出文件信息包装为工具响应（附带资源链接）
+ */
+export function exportResponse(file: ExportedFile) {
+  return {
+    content: [
+      {
+        type: "text" as const,
+        text: JSON.stringify(
+          {
+            path: file.path,
+            format: file.format,
+            size_bytes: file.size_bytes,
+            row_count: file.row_count,
+          },
+          null,
+          2,
+        ),
+      },
+      {
+        type: "resource_link" as const,
+        uri: file.uri,
+        name: file.name,
+        mimeType: file.mime_type,
+        description: `Metabase export (${file.format}, ${file.size_bytes} bytes)`,
+      },
+    ],
+  };
+}
+
+/**
+ * 将分页后的查询结果包装为工具响应
+ */
+export function pageResponse(page: ResultPage, format: OutputFormat) {
+  return {
+    content: formatResultPage(page, format),
+  };
+}